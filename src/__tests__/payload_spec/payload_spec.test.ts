@@ -1,6 +1,6 @@
 import { Spec } from '../../payload_spec/payload_spec';
-import { Mode } from '../../pos_buffer/pos_buffer';
-import { UInt8, Int8, UInt16, Float, UInt32, Text, Bit, Bool, Bits3, Bits5, Bits2, Bits8, Bytes } from '../../pos_buffer/types';
+import { Mode, PosBuffer } from '../../pos_buffer/pos_buffer';
+import { UInt8, Int8, UInt16, Float, UInt32, Text, Bit, Bool, Bits3, Bits4, Bits5, Bits2, Bits8, Bytes, VarUInt } from '../../pos_buffer/types';
 import '../matchers';
 
 describe('Simple fields', () => {
@@ -27,6 +27,16 @@ describe('Simple fields', () => {
 
     expect(result.count).toBe(767);
   });
+
+  it('can write a field as little endian', () => {
+    const spec = new Spec();
+
+    spec.field('count', UInt16, { mode: Mode.LE })
+
+    const result = spec.write({ count: 767 });
+
+    expect(result).toBeHex('FF02');
+  });
   
   it('writes fields in order to the buffer', () => {
     const spec = new Spec();
@@ -125,6 +135,81 @@ describe('skip', () => {
   });
 });
 
+describe('seek', () => {
+  it('seeks to an offset resolved from the result', () => {
+    const spec = new Spec()
+      .field('dataOffset', UInt8)
+      .seek(r => r.dataOffset)
+      .field('data', UInt16)
+      .seek(1)
+      .field('second', UInt8);
+
+    const result = spec.read(Buffer.from([0x04, 0x22, 0x00, 0x00, 0x01, 0x02]));
+
+    expect(result).toEqual({ dataOffset: 4, data: 258, second: 34 });
+  });
+
+  it('seeks relative to the current position', () => {
+    const spec = new Spec()
+      .field('first', UInt8)
+      .seekRelative(2)
+      .field('second', UInt8)
+      .seekRelative(-2)
+      .field('third', UInt8);
+
+    const result = spec.read(Buffer.from([0x01, 0x00, 0x00, 0x02]));
+
+    expect(result).toEqual({ first: 1, second: 2, third: 0 });
+  });
+
+  it('fills the gap when writing', () => {
+    const spec = new Spec()
+      .field('dataOffset', UInt8)
+      .seek(r => r.dataOffset, { fill: 0xFF })
+      .field('data', UInt16);
+
+    const result = spec.write({ dataOffset: 4, data: 258 });
+
+    expect(result).toBeHex('04FFFFFF0102');
+  });
+
+  it('rejects a backwards seek when writing', () => {
+    const spec = new Spec()
+      .field('data', UInt16)
+      .seekRelative(-1)
+      .field('more', UInt8);
+
+    expect(() => spec.write({ data: 1, more: 2 })).toThrowError('Cannot seek back to 1 when writing, as 2 bytes have already been written');
+  });
+});
+
+describe('align', () => {
+  it('aligns to a byte boundary when reading', () => {
+    const spec = new Spec()
+      .field('type', UInt8)
+      .align(4)
+      .field('length', UInt32)
+      .field('tag', UInt8)
+      .align(8)
+      .field('last', UInt8);
+
+    const result = spec.read(Buffer.from([0x01, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x02, 0x03, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x04]));
+
+    expect(result).toEqual({ type: 1, length: 2, tag: 3, last: 4 });
+  });
+
+  it('fills the gap when writing', () => {
+    const spec = new Spec()
+      .field('type', UInt8)
+      .align(4, { fill: 0xAA })
+      .field('length', UInt32);
+
+    const result = spec.write({ type: 1, length: 2 });
+
+    expect(result).toBeHex('01AAAAAA00000002');
+  });
+});
+
 describe('endianness', () => {
   it('can switch enddianness', () => {
     const result = new Spec({ mode: Mode.BE })
@@ -382,6 +467,25 @@ describe('if', () => {
 
     expect(result).toBeHex('A1D2');
   });  
+
+  it('executes the else spec if the predicate is false', () => {
+    const mainSpec =
+      new Spec()
+        .field('type', UInt8)
+        .if((r) => r.type === 1, new Spec().field('short', UInt8), new Spec().field('long', UInt16))
+
+    expect(mainSpec.read(Buffer.from([0x01, 0x02]))).toEqual({ type: 1, short: 2 });
+    expect(mainSpec.read(Buffer.from([0x02, 0x01, 0x00]))).toEqual({ type: 2, long: 256 });
+  });
+
+  it('executes the else spec when writing', () => {
+    const mainSpec =
+      new Spec()
+        .field('type', UInt8)
+        .if((r) => r.type === 1, new Spec().field('short', UInt8), new Spec().field('long', UInt16))
+
+    expect(mainSpec.write({ type: 2, long: 256 })).toBeHex('020100');
+  });
 })
 
 describe('literal value', () => {
@@ -592,6 +696,52 @@ describe('switch', () => {
     expect(result.one).toBeUndefined;
     expect(result.two).toBe(2);
   })
+
+  describe('with a list of cases', () => {
+    const extSpec = new Spec().field('ext', UInt16);
+    const basicSpec = new Spec().field('basic', UInt8);
+    const rangeSpec = new Spec().field('ranged', UInt8);
+    const nameSpec = new Spec().field('named', UInt8);
+
+    const mainSpec =
+      new Spec()
+        .field('id', UInt8)
+        .switch((r) => r.id, [
+          [v => v >= 0x80, extSpec],
+          [[1, 2, 3], basicSpec],
+          [{ min: 0x10, max: 0x1F }, rangeSpec],
+          [0x20, nameSpec]
+        ]);
+
+    it('matches predicates, lists of values, ranges and single values', () => {
+      expect(mainSpec.read(Buffer.from([0x81, 0x01, 0x00]))).toEqual({ id: 0x81, ext: 256 });
+      expect(mainSpec.read(Buffer.from([0x02, 0x07]))).toEqual({ id: 2, basic: 7 });
+      expect(mainSpec.read(Buffer.from([0x1F, 0x08]))).toEqual({ id: 0x1F, ranged: 8 });
+      expect(mainSpec.read(Buffer.from([0x20, 0x09]))).toEqual({ id: 0x20, named: 9 });
+    });
+
+    it('uses the first matching case', () => {
+      const spec =
+        new Spec()
+          .field('id', UInt8)
+          .switch((r) => r.id, [
+            [{ min: 1 }, basicSpec],
+            [() => true, rangeSpec]
+          ]);
+
+      expect(spec.read(Buffer.from([0x05, 0x07]))).toEqual({ id: 5, basic: 7 });
+      expect(spec.read(Buffer.from([0x00, 0x07]))).toEqual({ id: 0, ranged: 7 });
+    });
+
+    it('continues if no case matches', () => {
+      expect(mainSpec.read(Buffer.from([0x05, 0x07]))).toEqual({ id: 5 });
+    });
+
+    it('writes using the matching case', () => {
+      expect(mainSpec.write({ id: 0x90, ext: 256 })).toBeHex('900100');
+      expect(mainSpec.write({ id: 3, basic: 7 })).toBeHex('0307');
+    });
+  });
 });
 
 describe('loop', () => {
@@ -787,6 +937,95 @@ describe('loop', () => {
 
     expect(result).toBeHex('02FFFE03101112');
   })
+
+  describe('with a terminating condition', () => {
+    const recordSpec = new Spec()
+      .field('type', UInt8)
+      .field('length', UInt8)
+      .field('value', Bytes, { size: r => r.length });
+
+    it('repeats until a predicate on the last element holds', () => {
+      const spec = new Spec()
+        .loop('records', { until: (record) => record.type === 0 }, recordSpec)
+        .field('last', UInt8);
+
+      const result = spec.read(Buffer.from([0x01, 0x01, 0xAA, 0x02, 0x02, 0xBB, 0xCC, 0x00, 0x00, 0x09]));
+
+      expect(result.records).toHaveLength(3);
+      expect(result.records[1].value).toBeHex('BBCC');
+      expect(result.records[2].type).toBe(0);
+      expect(result.last).toBe(9);
+    });
+
+    it('repeats while a peeked value matches', () => {
+      const spec = new Spec()
+        .loop('entries', { while: (type) => type !== 0 }, new Spec().field('type', UInt8).field('value', UInt8))
+        .field('end', UInt8);
+
+      const result = spec.read(Buffer.from([0x01, 0x10, 0x02, 0x20, 0x00, 0x01]));
+
+      expect(result.entries).toEqual([{ type: 1, value: 16 }, { type: 2, value: 32 }]);
+      expect(result.end).toBe(0);
+    });
+
+    it('can peek a different type', () => {
+      const spec = new Spec()
+        .loop('entries', { while: (marker) => marker !== 0xFFFF, peek: UInt16 }, new Spec().field('value', UInt8))
+
+      const result = spec.read(Buffer.from([0x01, 0xFF, 0xFF, 0xFF]));
+
+      expect(result.entries).toEqual([{ value: 1 }]);
+    });
+
+    it('repeats until a sentinel byte sequence appears and consumes it', () => {
+      const spec = new Spec()
+        .loop('values', { sentinel: [0xFF, 0xFF] }, new Spec().field('value', UInt8))
+        .field('last', UInt8);
+
+      const result = spec.read(Buffer.from([0x01, 0xFF, 0x02, 0xFF, 0xFF, 0x09]));
+
+      expect(result.values).toEqual([{ value: 1 }, { value: 255 }, { value: 2 }]);
+      expect(result.last).toBe(9);
+    });
+
+    it('stops at the end of the buffer if the sentinel is missing', () => {
+      const spec = new Spec()
+        .loop('values', { sentinel: 0x00 }, new Spec().field('value', UInt8));
+
+      const result = spec.read(Buffer.from([0x01, 0x02]));
+
+      expect(result.values).toEqual([{ value: 1 }, { value: 2 }]);
+    });
+
+    it('writes the sentinel after the elements', () => {
+      const spec = new Spec()
+        .loop('values', { sentinel: [0xFF, 0xFF] }, new Spec().field('value', UInt8))
+        .field('last', UInt8);
+
+      const result = spec.write({ values: [{ value: 1 }, { value: 2 }], last: 9 });
+
+      expect(result).toBeHex('0102FFFF09');
+    });
+
+    it('accepts a sentinel string', () => {
+      const spec = new Spec()
+        .loop('lines', { sentinel: '\r\n' }, new Spec().field('char', Text, { size: 1 }));
+
+      const buffer = Buffer.from('ab\r\n', 'utf8');
+
+      expect(spec.read(buffer)).toEqual({ lines: [{ char: 'a' }, { char: 'b' }] });
+      expect(spec.write(spec.read(buffer))).toEqual(buffer);
+    });
+
+    it('writes all of the elements for an until loop', () => {
+      const spec = new Spec()
+        .loop('records', { until: (record) => record.type === 0 }, new Spec().field('type', UInt8));
+
+      const result = spec.write({ records: [{ type: 1 }, { type: 0 }] });
+
+      expect(result).toBeHex('0100');
+    });
+  });
 })
 
 describe('include', () => {
@@ -848,7 +1087,610 @@ describe('group', () => {
       }
     })
   })
+
+  it('writes data from under the key', () => {
+    const mainSpec = new Spec()
+      .field('version', UInt8)
+      .group('data', new Spec().field('version', UInt8));
+
+    const result = mainSpec.write({ version: 1, data: { version: 2 } });
+
+    expect(result).toBeHex('0102');
+  })
 })
+
+describe('size bounded sub specs', () => {
+  const bodySpec = new Spec()
+    .field('id', UInt8)
+    .field('name', Text);
+
+  it('reads a group within a window of the given size', () => {
+    const spec = new Spec()
+      .field('bodyLen', UInt8)
+      .group('body', bodySpec, { size: r => r.bodyLen })
+      .field('last', UInt8);
+
+    const result = spec.read(Buffer.from([0x04, 0x01, 0x62, 0x6f, 0x62, 0x09]));
+
+    expect(result).toEqual({ bodyLen: 4, body: { id: 1, name: 'bob' }, last: 9 });
+  });
+
+  it('skips any bytes that are not read', () => {
+    const spec = new Spec()
+      .group('body', new Spec().field('id', UInt8), { size: 3 })
+      .field('last', UInt8);
+
+    const result = spec.read(Buffer.from([0x01, 0xAA, 0xBB, 0x09]));
+
+    expect(result).toEqual({ body: { id: 1 }, last: 9 });
+  });
+
+  it('can capture the bytes that are not read', () => {
+    const spec = new Spec()
+      .group('body', new Spec().field('id', UInt8), { size: 3, remainder: 'rest' })
+      .include(new Spec().field('flags', UInt8), { size: 2, remainder: 'extra' });
+
+    const result = spec.read(Buffer.from([0x01, 0xAA, 0xBB, 0x07, 0xCC]));
+
+    expect(result.body.rest).toBeHex('AABB');
+    expect(result.flags).toBe(7);
+    expect(result.extra).toBeHex('CC');
+  });
+
+  it('does not allow reads to escape the window', () => {
+    const spec = new Spec()
+      .group('body', new Spec().field('value', UInt16), { size: 1 });
+
+    expect(() => spec.read(Buffer.from([0x01, 0x02]))).toThrow();
+  });
+
+  it('errors if the window is larger than the buffer', () => {
+    const spec = new Spec()
+      .group('body', bodySpec, { size: 5 });
+
+    expect(() => spec.read(Buffer.from([0x01, 0x02]))).toThrowError('Attempt to read outside of the buffer');
+  });
+
+  it('stops a loop at the end of the window', () => {
+    const spec = new Spec()
+      .field('count', UInt8)
+      .loop('values', null, new Spec().field('value', UInt8), { size: r => r.count })
+      .field('last', UInt8);
+
+    const result = spec.read(Buffer.from([0x02, 0x01, 0x02, 0x09]));
+
+    expect(result).toEqual({ count: 2, values: [{ value: 1 }, { value: 2 }], last: 9 });
+  });
+
+  it('pads the window when writing', () => {
+    const spec = new Spec()
+      .field('bodyLen', UInt8)
+      .group('body', bodySpec, { size: r => r.bodyLen, fill: 0x20 })
+      .loop('values', null, new Spec().field('value', UInt8), { size: 3 })
+      .field('last', UInt8);
+
+    const result = spec.write({ bodyLen: 6, body: { id: 1, name: 'bob' }, values: [{ value: 1 }], last: 9 });
+
+    expect(result).toBeHex('0601626F62202001000009');
+  });
+
+  it('writes the remainder back inside the window', () => {
+    const spec = new Spec()
+      .group('body', new Spec().field('id', UInt8), { size: 3, remainder: 'rest' })
+      .field('last', UInt8);
+
+    const buffer = Buffer.from([0x01, 0xAA, 0xBB, 0x09]);
+
+    expect(spec.write(spec.read(buffer))).toEqual(buffer);
+  });
+
+  it('errors if more is written than fits in the window', () => {
+    const spec = new Spec()
+      .group('body', bodySpec, { size: 2 });
+
+    expect(() => spec.write({ body: { id: 1, name: 'bob' } })).toThrowError('Wrote 4 bytes but the size is 2');
+  });
+
+  it('seeks and aligns within the window when writing', () => {
+    const seekSpec = new Spec()
+      .field('x', UInt8)
+      .group('g', new Spec().field('a', UInt8).seek(3).field('b', UInt8), { size: 4 });
+    const alignSpec = new Spec()
+      .field('x', UInt8)
+      .group('g', new Spec().field('a', UInt8).align(2).field('b', UInt8), { size: 4 });
+
+    const data = { x: 9, g: { a: 1, b: 2 } };
+
+    expect(seekSpec.write(data)).toBeHex('0901000002');
+    expect(seekSpec.read(seekSpec.write(data))).toEqual(data);
+    expect(alignSpec.write(data)).toBeHex('0901000200');
+    expect(alignSpec.read(alignSpec.write(data))).toEqual(data);
+  });
+
+  it('carries on within the same byte when there is no size', () => {
+    const nibble = new Spec().field('b', Bits4);
+    const spec = new Spec()
+      .field('a', Bits4)
+      .group('g', nibble)
+      .field('c', Bits4)
+      .include(nibble)
+      .loop('l', 2, new Spec().field('d', Bits4));
+
+    const data = { a: 1, g: { b: 2 }, c: 3, b: 4, l: [{ d: 5 }, { d: 6 }] };
+    const result = spec.write(data);
+
+    expect(result).toBeHex('123456');
+    expect(spec.read(result)).toEqual(data);
+  });
+});
+
+describe('pointer', () => {
+  const nameSpec = new Spec().field('text', Text, { terminator: 0x00 });
+
+  it('reads a spec at the offset and returns to the original position', () => {
+    const spec = new Spec()
+      .field('nameOffset', UInt8)
+      .pointer('name', 'nameOffset', nameSpec)
+      .field('count', UInt8);
+
+    const result = spec.read(Buffer.from([0x03, 0x07, 0xFF, 0x62, 0x6f, 0x62, 0x00]));
+
+    expect(result).toEqual({ nameOffset: 3, name: { text: 'bob' }, count: 7 });
+  });
+
+  it('resolves the offset with a function and a base', () => {
+    const spec = new Spec()
+      .field('header', UInt8)
+      .field('nameOffset', UInt8)
+      .pointer('name', r => r.nameOffset, nameSpec, { base: r => r.header });
+
+    const result = spec.read(Buffer.from([0x02, 0x01, 0xFF, 0x62, 0x00]));
+
+    expect(result.name).toEqual({ text: 'b' });
+  });
+
+  it('can follow pointers inside a loop', () => {
+    const entrySpec = new Spec()
+      .field('id', UInt8)
+      .field('nameOffset', UInt8)
+      .pointer('name', 'nameOffset', nameSpec);
+
+    const spec = new Spec()
+      .field('count', UInt8)
+      .loop('entries', r => r.count, entrySpec);
+
+    const result = spec.read(Buffer.from([0x02, 0x01, 0x05, 0x02, 0x07, 0x61, 0x00, 0x62, 0x00]));
+
+    expect(result.entries).toEqual([
+      { id: 1, nameOffset: 5, name: { text: 'a' } },
+      { id: 2, nameOffset: 7, name: { text: 'b' } }
+    ]);
+  });
+
+  it('errors if the offset is outside the buffer', () => {
+    const spec = new Spec()
+      .field('nameOffset', UInt8)
+      .pointer('name', 'nameOffset', nameSpec);
+
+    expect(() => spec.read(Buffer.from([0x09, 0x00]))).toThrowError('Attempt to seek outside the buffer');
+  });
+
+  it('writes pointed to data at the end and backfills the offsets', () => {
+    const entrySpec = new Spec()
+      .field('id', UInt8)
+      .field('nameOffset', UInt16)
+      .pointer('name', 'nameOffset', nameSpec);
+
+    const spec = new Spec()
+      .field('count', UInt8)
+      .loop('entries', r => r.count, entrySpec)
+      .field('last', UInt8);
+
+    const result = spec.write({ count: 2, entries: [{ id: 1, name: { text: 'a' } }, { id: 2, name: { text: 'bc' } }], last: 9 });
+
+    expect(result).toBeHex('0201000802000A096100626300');
+    expect(spec.read(result).entries[1].name).toEqual({ text: 'bc' });
+  });
+
+  it('writes offsets relative to the base', () => {
+    const spec = new Spec()
+      .field('nameOffset', UInt8)
+      .pointer('name', 'nameOffset', nameSpec, { base: 1 });
+
+    const result = spec.write({ name: { text: 'a' } });
+
+    expect(result).toBeHex('006100');
+  });
+
+  it('backfills the offset in the mode it was written in', () => {
+    const spec = new Spec()
+      .field('nameOffset', UInt16)
+      .endianness(Mode.LE)
+      .field('count', UInt16)
+      .pointer('name', 'nameOffset', nameSpec);
+
+    const result = spec.write({ count: 1, name: { text: 'a' } });
+
+    expect(result).toBeHex('000401006100');
+    expect(spec.read(result).name).toEqual({ text: 'a' });
+  });
+
+  it('resolves offsets from the start of the whole buffer inside a sized window', () => {
+    const entrySpec = new Spec()
+      .field('nameOffset', UInt8)
+      .pointer('name', 'nameOffset', nameSpec);
+
+    const spec = new Spec()
+      .field('x', UInt8)
+      .group('entry', entrySpec, { size: 1 })
+      .field('last', UInt8);
+
+    const data = { x: 9, entry: { name: { text: 'a' } }, last: 7 };
+    const result = spec.write(data);
+
+    expect(result).toBeHex('0903076100');
+    expect(spec.read(result)).toEqual({ x: 9, entry: { nameOffset: 3, name: { text: 'a' } }, last: 7 });
+  });
+
+  it('writes pointed to data when given a buffer to write to', () => {
+    const spec = new Spec()
+      .field('nameOffset', UInt8)
+      .pointer('name', 'nameOffset', nameSpec);
+
+    const result = spec.write({ name: { text: 'a' } }, new PosBuffer([]));
+
+    expect(result).toBeHex('016100');
+  });
+
+  it('errors when writing if the offset is not a field', () => {
+    const spec = new Spec()
+      .field('nameOffset', UInt8)
+      .pointer('name', r => r.nameOffset, nameSpec);
+
+    expect(() => spec.write({ name: { text: 'a' } })).toThrowError('Pointer name can only be written if its offset is the name of a field');
+  });
+
+  it('errors when writing if the offset field has not been written', () => {
+    const spec = new Spec()
+      .pointer('name', 'nameOffset', nameSpec)
+      .field('nameOffset', UInt8);
+
+    expect(() => spec.write({ name: { text: 'a' } })).toThrowError('Offset field nameOffset must be written before pointer name');
+  });
+});
+
+describe('lazy', () => {
+  const tlv: Spec = new Spec()
+    .field('type', UInt8)
+    .field('length', UInt8)
+    .if(r => r.type === 0x30,
+      new Spec().loop('children', null, Spec.lazy(() => tlv), { size: r => r.length }),
+      new Spec().field('value', Bytes, { size: r => r.length }));
+
+  it('allows a spec to include itself', () => {
+    const result = tlv.read(Buffer.from([0x30, 0x07, 0x02, 0x01, 0x05, 0x30, 0x02, 0x04, 0x00]));
+
+    expect(result).toEqual({
+      type: 0x30,
+      length: 7,
+      children: [
+        { type: 0x02, length: 1, value: Buffer.from([0x05]) },
+        { type: 0x30, length: 2, children: [{ type: 0x04, length: 0, value: Buffer.from([]) }] }
+      ]
+    });
+  });
+
+  it('writes recursively', () => {
+    const buffer = Buffer.from([0x30, 0x07, 0x02, 0x01, 0x05, 0x30, 0x02, 0x04, 0x00]);
+
+    expect(tlv.write(tlv.read(buffer))).toEqual(buffer);
+  });
+
+  it('can reference a spec declared later', () => {
+    const spec = new Spec()
+      .field('count', UInt8)
+      .group('body', Spec.lazy(() => body));
+
+    const body = new Spec().field('value', UInt8);
+
+    expect(spec.read(Buffer.from([0x01, 0x02]))).toEqual({ count: 1, body: { value: 2 } });
+  });
+
+  it('errors if the maximum depth is exceeded', () => {
+    const node: Spec = new Spec()
+      .field('hasChild', UInt8)
+      .if(r => r.hasChild === 1, new Spec().group('child', Spec.lazy(() => node, { maxDepth: 2 })));
+
+    expect(node.read(Buffer.from([0x01, 0x01, 0x00]))).toEqual({ hasChild: 1, child: { hasChild: 1, child: { hasChild: 0 } } });
+    expect(() => node.read(Buffer.from([0x01, 0x01, 0x01, 0x00]))).toThrowError('Maximum recursion depth of 2 exceeded');
+  });
+});
+
+describe('params', () => {
+  const payload = new Spec()
+    .param('version')
+    .param('width', 1)
+    .if(r => r.version >= 2, new Spec().field('flags', UInt8))
+    .field('value', Bytes, { size: r => r.width });
+
+  it('can be supplied when reading and writing', () => {
+    expect(payload.read(Buffer.from([0x01, 0xAA]), { params: { version: 2 } })).toEqual({ flags: 1, value: Buffer.from([0xAA]) });
+    expect(payload.write({ flags: 1, value: Buffer.from([0xAA]) }, undefined, { params: { version: 2 } })).toBeHex('01AA');
+  });
+
+  it('errors if a parameter without a default is missing', () => {
+    expect(() => payload.read(Buffer.from([0xAA]))).toThrowError('Missing parameter version');
+  });
+
+  it('can be supplied to a group from the enclosing spec', () => {
+    const spec = new Spec()
+      .field('ver', UInt8)
+      .group('payload', payload, { params: r => ({ version: r.ver, width: 2 }) });
+
+    const buffer = Buffer.from([0x01, 0xAA, 0xBB]);
+    const result = spec.read(buffer);
+
+    expect(result).toEqual({ ver: 1, payload: { value: Buffer.from([0xAA, 0xBB]) } });
+    expect(spec.write(result)).toEqual(buffer);
+  });
+
+  it('can be supplied to a loop, include, if and switch', () => {
+    const element = new Spec().param('size').field('value', Bytes, { size: r => r.size });
+
+    const spec = new Spec()
+      .field('type', UInt8)
+      .include(element, { params: { size: 1 } })
+      .if(r => r.type === 1, new Spec().group('single', element), { params: { size: 2 } })
+      .switch(r => r.type, { 1: new Spec().loop('items', 2, element, { params: r => ({ size: r.type }) }) }, { params: {} });
+
+    const buffer = Buffer.from([0x01, 0xAA, 0xBB, 0xCC, 0xDD, 0xEE]);
+    const result = spec.read(buffer);
+
+    expect(result).toEqual({
+      type: 1,
+      value: Buffer.from([0xAA]),
+      single: { value: Buffer.from([0xBB, 0xCC]) },
+      items: [{ value: Buffer.from([0xDD]) }, { value: Buffer.from([0xEE]) }]
+    });
+    expect(spec.write(result)).toEqual(buffer);
+  });
+});
+
+describe('checksum', () => {
+  const modbus = new Spec()
+    .field('address', UInt8)
+    .field('function', UInt8)
+    .field('register', UInt16)
+    .field('count', UInt16)
+    .checksum('crc', 'crc16-modbus', { mode: Mode.LE });
+
+  it('verifies a checksum over the preceding bytes', () => {
+    expect(modbus.read(Buffer.from([0x01, 0x03, 0x00, 0x00, 0x00, 0x0A, 0xC5, 0xCD]))).toEqual({ address: 1, function: 3, register: 0, count: 10, crc: 0xCDC5 });
+  });
+
+  it('errors if the checksum does not match', () => {
+    expect(() => modbus.read(Buffer.from([0x01, 0x03, 0x00, 0x00, 0x00, 0x0B, 0xC5, 0xCD]))).toThrowError('Expected checksum crc to be 0xD04 but was 0xCDC5');
+  });
+
+  it('can flag a mismatch instead of erroring', () => {
+    const spec = new Spec().field('value', UInt8).checksum('sum', 'sum8', { flag: 'valid' });
+
+    expect(spec.read(Buffer.from([0x05, 0x05]))).toEqual({ value: 5, sum: 5, valid: true });
+    expect(spec.read(Buffer.from([0x05, 0x06]))).toEqual({ value: 5, sum: 6, valid: false });
+  });
+
+  it('computes the checksum when writing', () => {
+    expect(modbus.write({ address: 1, function: 3, register: 0, count: 10 })).toBeHex('01030000000AC5CD');
+  });
+
+  it('can cover a range of bytes after the checksum', () => {
+    const spec = new Spec()
+      .field('length', UInt8)
+      .checksum('check', 'xor', { from: 2, to: r => 2 + r.length })
+      .field('data', Bytes, { size: r => r.length })
+      .field('trailer', UInt8);
+
+    const buffer = Buffer.from([0x03, 0x02, 0x01, 0x02, 0x01, 0xFF]);
+
+    expect(spec.read(buffer)).toEqual({ length: 3, check: 2, data: Buffer.from([0x01, 0x02, 0x01]), trailer: 0xFF });
+    expect(spec.write({ length: 3, data: Buffer.from([0x01, 0x02, 0x01]), trailer: 0xFF })).toEqual(buffer);
+  });
+
+  it('covers the bytes of the enclosing window', () => {
+    const spec = new Spec()
+      .field('pre', UInt8)
+      .group('packet', new Spec()
+        .field('a', UInt8)
+        .checksum('check', 'xor', { from: 0 }), { size: 2 });
+
+    const result = spec.write({ pre: 0xF0, packet: { a: 1 } });
+
+    expect(result).toBeHex('F00101');
+    expect(spec.read(result)).toEqual({ pre: 0xF0, packet: { a: 1, check: 1 } });
+  });
+
+  it('covers a size that is filled in later', () => {
+    const spec = new Spec()
+      .field('length', UInt8, { sizeOf: 'body' })
+      .checksum('headerCheck', 'xor')
+      .field('body', Bytes, { size: r => r.length });
+
+    const result = spec.write({ body: Buffer.from([0x01, 0x02, 0x03]) });
+
+    expect(result).toBeHex('0303010203');
+    expect(spec.read(result)).toEqual({ length: 3, headerCheck: 3, body: Buffer.from([0x01, 0x02, 0x03]) });
+  });
+
+  it('errors if the range extends beyond the bytes written', () => {
+    const spec = new Spec()
+      .checksum('check', 'xor', { to: 4 })
+      .field('value', UInt8);
+
+    expect(() => spec.write({ value: 1 })).toThrowError('Checksum check covers bytes up to 4 but there are only 2');
+  });
+});
+
+describe('sizeOf and countOf', () => {
+  it('fills in the size of a later field when writing', () => {
+    const spec = new Spec()
+      .field('length', UInt16, { sizeOf: 'body' })
+      .field('body', Text)
+      .field('last', UInt8);
+
+    expect(spec.write({ body: 'bob', last: 1 })).toBeHex('0003626F6201');
+  });
+
+  it('fills in the size of an earlier field when writing', () => {
+    const spec = new Spec()
+      .field('body', Text, { terminator: 0x00 })
+      .field('length', UInt8, { sizeOf: 'body' });
+
+    expect(spec.write({ body: 'bob' })).toBeHex('626F620004');
+  });
+
+  it('measures groups and loops', () => {
+    const item = new Spec().field('value', UInt16);
+    const spec = new Spec()
+      .field('count', UInt8, { countOf: 'items' })
+      .field('size', UInt8, { sizeOf: 'items' })
+      .loop('items', r => r.count, item)
+      .field('headerSize', UInt8, { sizeOf: 'header' })
+      .group('header', new Spec().field('id', UInt32));
+
+    const data = { items: [{ value: 1 }, { value: 2 }], header: { id: 7 } };
+    const written = spec.write(data);
+
+    expect(written).toBeHex('0204000100020400000007');
+    expect(spec.read(written)).toEqual({ count: 2, size: 4, headerSize: 4, ...data });
+  });
+
+  it('is filled in for each element of a loop', () => {
+    const spec = new Spec()
+      .loop('names', null, new Spec()
+        .field('length', UInt8, { sizeOf: 'name' })
+        .field('name', Text, { size: r => r.length }));
+
+    const written = spec.write({ names: [{ name: 'a' }, { name: 'bob' }] });
+
+    expect(written).toBeHex('0161' + '03626F62');
+    expect(spec.read(written)).toEqual({ names: [{ length: 1, name: 'a' }, { length: 3, name: 'bob' }] });
+  });
+
+  it('errors if the counted field has no length', () => {
+    const spec = new Spec().field('count', UInt8, { countOf: 'items' });
+
+    expect(() => spec.write({})).toThrowError('Cannot count items for count as it has no length');
+  });
+
+  it('errors if the sized field is not in the spec', () => {
+    const spec = new Spec().field('length', UInt8, { sizeOf: 'body' });
+
+    expect(() => spec.write({ body: 'bob' })).toThrowError('Cannot find the field body to write its size');
+  });
+
+  it('errors if the size field is not a fixed size numeric type', () => {
+    expect(() => new Spec().field('length', VarUInt, { sizeOf: 'body' })).toThrowError('Field length must be a fixed size numeric type to hold the size of body');
+  });
+
+  it('ignores a size given in the data and makes the written size visible', () => {
+    const spec = new Spec()
+      .field('length', UInt8, { sizeOf: 'body' })
+      .field('body', Bytes, { size: r => r.length })
+      .field('echo', Bytes, { size: r => r.length });
+
+    const result = spec.write({ length: 1, body: Buffer.from([0x01, 0x02, 0x03]), echo: Buffer.from([0x04, 0x05, 0x06, 0x07]) });
+
+    expect(result).toBeHex('03010203040506');
+  });
+});
+
+describe('scope', () => {
+  it('makes fields and stored values from enclosing specs visible in nested specs', () => {
+    const spec = new Spec()
+      .store('count', UInt8)
+      .field('size', UInt8)
+      .group('body', new Spec()
+        .loop('items', r => r.count, new Spec()
+          .field('value', Bytes, { size: r => r.size })))
+
+    const result = spec.read(Buffer.from([0x02, 0x01, 0xAA, 0xBB]));
+
+    expect(result.body.items).toEqual([{ value: Buffer.from([0xAA]) }, { value: Buffer.from([0xBB]) }]);
+  });
+
+  it('gives access to the parent and root scopes', () => {
+    const spec = new Spec()
+      .field('size', UInt8)
+      .group('header', new Spec()
+        .field('size', UInt8)
+        .group('body', new Spec()
+          .derive('parentSize', r => r.$parent.size)
+          .derive('rootSize', r => r.$root.size)
+          .derive('nearestSize', r => r.size)))
+
+    const result = spec.read(Buffer.from([0x01, 0x02]));
+
+    expect(result.header.body).toEqual({ parentSize: 2, rootSize: 1, nearestSize: 2 });
+  });
+
+  it('gives access to the loop index', () => {
+    const spec = new Spec()
+      .loop('items', 3, new Spec()
+        .field('value', UInt8)
+        .derive('position', r => r.$index)
+        .group('nested', new Spec().derive('position', r => r.$index)))
+
+    const result = spec.read(Buffer.from([0x0A, 0x0B, 0x0C]));
+
+    expect(result.items.map((i: any) => i.position)).toEqual([0, 1, 2]);
+    expect(result.items[2].nested.position).toBe(2);
+  });
+
+  it('keeps earlier values that cannot be copied as JSON visible in loops', () => {
+    const spec = new Spec()
+      .field('key', Bytes, { size: 2 })
+      .loop('items', 2, new Spec()
+        .field('value', UInt8)
+        .derive('keyed', r => r.key[r.$index] ^ r.value))
+
+    const result = spec.read(Buffer.from([0x0F, 0xF0, 0x01, 0x01]));
+
+    expect(result.items).toEqual([{ value: 1, keyed: 0x0E }, { value: 1, keyed: 0xF1 }]);
+  });
+
+  it('passes the state on to switched specs', () => {
+    const spec = new Spec()
+      .field('size', UInt8)
+      .field('type', UInt8)
+      .switch(r => r.type, { '1': new Spec().field('name', Text, { size: r => r.size }) })
+
+    const result = spec.read(Buffer.from([0x02, 0x01, 0x68, 0x69]));
+
+    expect(result.name).toBe('hi');
+  });
+
+  it('uses the same scope when writing', () => {
+    const spec = new Spec()
+      .field('size', UInt8)
+      .loop('items', 2, new Spec()
+        .field('value', Text, { size: r => r.$parent.size })
+        .if(r => r.$index === 0, new Spec().field('first', UInt8)))
+
+    const result = spec.write({ size: 2, items: [{ value: 'ab', first: 9 }, { value: 'cd', first: 7 }] });
+
+    expect(result).toBeHex('026162096364');
+  });
+
+  it('writes buffers within loops', () => {
+    const spec = new Spec()
+      .loop('items', 2, new Spec().field('value', Bytes, { size: 2 }))
+
+    const result = spec.write({ items: [{ value: Buffer.from([0x01, 0x02]) }, { value: Buffer.from([0x03, 0x04]) }] });
+
+    expect(result).toBeHex('01020304');
+  });
+});
+
 describe('tap', () => {
   it('executes the provided code and passes the buffer and current state', () => {
     let fieldOne = null;
@@ -0,0 +1,44 @@
+import { ChecksumAlgorithm, registerChecksum, getChecksum } from '../../pos_buffer/checksums';
+
+describe('checksums', () => {
+  const check = Buffer.from('123456789', 'ascii');
+
+  it.each([
+    ['crc8', 0xF4],
+    ['crc16-ccitt', 0x29B1],
+    ['crc16-modbus', 0x4B37],
+    ['crc16-xmodem', 0x31C3],
+    ['crc32', 0xCBF43926],
+    ['crc32c', 0xE3069283],
+    ['adler32', 0x091E01DE],
+    ['xor', 0x31],
+    ['sum8', 0xDD]
+  ])('computes %s', (name, expected) => {
+    expect(getChecksum(name as string).compute(check)).toBe(expected);
+  });
+
+  it('computes fletcher16', () => {
+    expect(getChecksum('fletcher16').compute(Buffer.from('abcde', 'ascii'))).toBe(0xC8F0);
+    expect(getChecksum('fletcher16').compute(Buffer.from('abcdef', 'ascii'))).toBe(0x2057);
+  });
+
+  it('computes fletcher32', () => {
+    expect(getChecksum('fletcher32').compute(Buffer.from('abcde', 'ascii'))).toBe(0xF04FC729);
+    expect(getChecksum('fletcher32').compute(Buffer.from('abcdef', 'ascii'))).toBe(0x56502D2A);
+  });
+
+  it('looks up algorithms case insensitively', () => {
+    expect(getChecksum('CRC32')).toBe(getChecksum('crc32'));
+  });
+
+  it('allows a custom algorithm to be registered', () => {
+    const count: ChecksumAlgorithm = { size: 1, compute: (bytes) => bytes.length };
+    registerChecksum('count', count);
+
+    expect(getChecksum('count').compute(check)).toBe(9);
+  });
+
+  it('errors for an unknown algorithm', () => {
+    expect(() => getChecksum('md5')).toThrow(new Error('Unknown checksum algorithm md5'));
+  });
+});
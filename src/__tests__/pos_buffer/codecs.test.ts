@@ -0,0 +1,135 @@
+import { Spec } from '../../payload_spec/payload_spec';
+import { PosBuffer } from '../../pos_buffer/pos_buffer';
+import { Text, UInt8 } from '../../pos_buffer/types';
+import { Codec, registerCodec, getCodec } from '../../pos_buffer/codecs';
+import '../matchers';
+
+describe('utf16be', () => {
+  it('reads text', () => {
+    const buffer = new PosBuffer([0x00, 0x48, 0x00, 0xE9, 0x20, 0xAC]);
+
+    expect(buffer.read(Text, { encoding: 'utf16be' })).toBe('Hé€');
+  });
+
+  it('writes text', () => {
+    const buffer = new PosBuffer([]);
+
+    buffer.write(Text, 'Hé€', { encoding: 'utf16be' });
+    expect(buffer).toBeHex('004800E920AC');
+  });
+
+  it('finds a null terminator aligned to the code unit', () => {
+    const buffer = new PosBuffer([0x61, 0x00, 0x00, 0x62, 0x00, 0x00, 0x01]);
+
+    expect(buffer.read(Text, { encoding: 'utf16be', terminator: 0x00 })).toBe('愀b');
+    expect(buffer.read(UInt8)).toBe(1);
+  });
+});
+
+describe('utf32', () => {
+  it('reads little endian text', () => {
+    const buffer = new PosBuffer([0x61, 0x00, 0x00, 0x00, 0x00, 0xF6, 0x01, 0x00]);
+
+    expect(buffer.read(Text, { encoding: 'utf32le' })).toBe('a😀');
+  });
+
+  it('reads big endian text', () => {
+    const buffer = new PosBuffer([0x00, 0x00, 0x00, 0x61, 0x00, 0x01, 0xF6, 0x00]);
+
+    expect(buffer.read(Text, { encoding: 'utf32be' })).toBe('a😀');
+  });
+
+  it('writes text', () => {
+    const buffer = new PosBuffer([]);
+
+    buffer.write(Text, 'a😀', { encoding: 'utf32le' });
+    buffer.write(Text, 'a😀', { encoding: 'utf32be' });
+    expect(buffer).toBeHex('6100000000F60100000000610001F600');
+  });
+
+  it('writes a wide terminator', () => {
+    const buffer = new PosBuffer([]);
+
+    buffer.write(Text, 'a', { encoding: 'utf32be', terminator: 0x00 });
+    expect(buffer).toBeHex('0000006100000000');
+  });
+
+  it('errors on an invalid code point', () => {
+    const buffer = new PosBuffer([0x00, 0x00, 0x11, 0x00]);
+
+    expect(() => buffer.read(Text, { encoding: 'utf32le' })).toThrow(new Error('Invalid code point 0x110000 at byte 0'));
+  });
+});
+
+describe('cp1252', () => {
+  it('reads text', () => {
+    const buffer = new PosBuffer([0x48, 0xE9, 0x80, 0x31]);
+
+    expect(buffer.read(Text, { encoding: 'cp1252' })).toBe('Hé€1');
+  });
+
+  it('writes text', () => {
+    const buffer = new PosBuffer([]);
+
+    buffer.write(Text, 'Hé€1', { encoding: 'windows-1252' });
+    expect(buffer).toBeHex('48E98031');
+  });
+
+  it('errors if a character cannot be encoded', () => {
+    const buffer = new PosBuffer([]);
+
+    expect(() => buffer.write(Text, 'ユ', { encoding: 'cp1252' })).toThrow(new Error(`Character 'ユ' cannot be encoded as cp1252`));
+  });
+});
+
+describe('EBCDIC', () => {
+  it('reads cp037 text', () => {
+    const buffer = new PosBuffer([0xC8, 0x85, 0x93, 0x93, 0x96]);
+
+    expect(buffer.read(Text, { encoding: 'cp037' })).toBe('Hello');
+  });
+
+  it('writes the code page specific characters', () => {
+    const buffer = new PosBuffer([]);
+
+    buffer.write(Text, '[!]', { encoding: 'cp037' });
+    buffer.write(Text, '[!]', { encoding: 'cp500' });
+    expect(buffer).toBeHex('BA5ABB4A4F5A');
+  });
+
+  it('pads fixed size fields with EBCDIC spaces', () => {
+    const spec = new Spec()
+      .field('name', Text, { size: 6, padding: ' ', encoding: 'cp037' })
+      .field('last', UInt8);
+
+    const result = spec.write({ name: 'Hello', last: 1 });
+
+    expect(result).toBeHex('C885939396' + '40' + '01');
+    expect(spec.read(result)).toEqual({ name: 'Hello', last: 1 });
+  });
+});
+
+describe('registerCodec', () => {
+  const rot13: Codec = {
+    unitSize: 1,
+    decode: (bytes) => bytes.toString('ascii').replace(/[a-z]/g, (c) => String.fromCharCode((c.charCodeAt(0) - 84) % 26 + 97)),
+    encode: (value) => Buffer.from(value.replace(/[a-z]/g, (c) => String.fromCharCode((c.charCodeAt(0) - 84) % 26 + 97)), 'ascii')
+  };
+
+  it('allows a custom codec to be used by Text', () => {
+    registerCodec('rot13', rot13);
+
+    const spec = new Spec().field('secret', Text, { encoding: 'rot13' });
+
+    expect(spec.read(Buffer.from('obo', 'ascii'))).toEqual({ secret: 'bob' });
+    expect(spec.write({ secret: 'bob' })).toBeHex('6F626F');
+  });
+
+  it('looks up codecs case insensitively', () => {
+    expect(getCodec('UTF-16BE')).toBe(getCodec('utf16be'));
+  });
+
+  it('errors for an unknown encoding', () => {
+    expect(() => new PosBuffer([0x62]).read(Text, { encoding: 'klingon' })).toThrow(new Error('Unknown encoding klingon'));
+  });
+});
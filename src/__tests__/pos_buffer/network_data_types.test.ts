@@ -0,0 +1,149 @@
+import { Spec } from '../../payload_spec/payload_spec';
+import { UUID, GUID, IPv4, IPv6, MAC, UInt8 } from '../../pos_buffer/types';
+import '../matchers';
+
+const uuidBytes = Buffer.from('00112233445566778899aabbccddeeff', 'hex');
+
+describe('UUID', () => {
+  it('reads 16 bytes in RFC 4122 order', () => {
+    const result = new Spec()
+      .field('id', UUID)
+      .exec(uuidBytes);
+
+    expect(result.id).toBe('00112233-4455-6677-8899-aabbccddeeff');
+  });
+
+  it('writes a UUID string', () => {
+    const result = new Spec()
+      .field('id', UUID)
+      .write({ id: '00112233-4455-6677-8899-AABBCCDDEEFF' });
+
+    expect(result).toEqual(uuidBytes);
+  });
+
+  it('errors if the value is not a UUID', () => {
+    const spec = new Spec()
+      .field('id', UUID);
+
+    expect(() => spec.write({ id: '00112233-4455-6677-8899' })).toThrowError('Invalid UUID 00112233-4455-6677-8899');
+  });
+
+  it('errors if there are not enough bytes', () => {
+    const spec = new Spec()
+      .field('id', UUID);
+
+    expect(() => spec.exec(uuidBytes.slice(0, 10))).toThrowError('Attempt to read outside of the buffer');
+  });
+});
+
+describe('GUID', () => {
+  it('reads the first three groups as little endian', () => {
+    const result = new Spec()
+      .field('id', GUID)
+      .exec(uuidBytes);
+
+    expect(result.id).toBe('33221100-5544-7766-8899-aabbccddeeff');
+  });
+
+  it('round trips through write', () => {
+    const spec = new Spec()
+      .field('id', GUID);
+
+    expect(spec.write(spec.read(uuidBytes))).toEqual(uuidBytes);
+  });
+
+  it('accepts braces when writing', () => {
+    const result = new Spec()
+      .field('id', GUID)
+      .write({ id: '{33221100-5544-7766-8899-aabbccddeeff}' });
+
+    expect(result).toEqual(uuidBytes);
+  });
+});
+
+describe('IPv4', () => {
+  it('reads dotted decimal notation', () => {
+    const result = new Spec()
+      .field('address', IPv4)
+      .field('port', UInt8)
+      .exec(Buffer.from([0xC0, 0xA8, 0x00, 0x01, 0x50]));
+
+    expect(result.address).toBe('192.168.0.1');
+    expect(result.port).toBe(80);
+  });
+
+  it('writes dotted decimal notation', () => {
+    const result = new Spec()
+      .field('address', IPv4)
+      .write({ address: '10.0.255.1' });
+
+    expect(result).toBeHex('0A00FF01');
+  });
+
+  it('errors on invalid addresses', () => {
+    const spec = new Spec()
+      .field('address', IPv4);
+
+    expect(() => spec.write({ address: '10.0.256.1' })).toThrowError('Invalid IPv4 10.0.256.1');
+    expect(() => spec.write({ address: '10.0.1' })).toThrowError('Invalid IPv4 10.0.1');
+  });
+});
+
+describe('IPv6', () => {
+  const read = (hex: string) => new Spec().field('address', IPv6).exec(Buffer.from(hex, 'hex')).address;
+  const write = (address: string) => new Spec().field('address', IPv6).write({ address }).toString('hex');
+
+  it('reads compressed notation', () => {
+    expect(read('20010db8000000000000000000000001')).toBe('2001:db8::1');
+    expect(read('00000000000000000000000000000001')).toBe('::1');
+    expect(read('00000000000000000000000000000000')).toBe('::');
+    expect(read('fe800000000000000000000000000000')).toBe('fe80::');
+  });
+
+  it('compresses the longest run of zeroes, and only runs of more than one group', () => {
+    expect(read('20010db8000000010000000000000001')).toBe('2001:db8:0:1::1');
+    expect(read('20010000000000010000000000000001')).toBe('2001:0:0:1::1');
+    expect(read('20010db8000000000001000000000001')).toBe('2001:db8::1:0:0:1');
+    expect(read('20010db8000100010001000100010001')).toBe('2001:db8:1:1:1:1:1:1');
+  });
+
+  it('writes compressed and full notation', () => {
+    expect(write('2001:db8::1')).toBe('20010db8000000000000000000000001');
+    expect(write('::')).toBe('00000000000000000000000000000000');
+    expect(write('2001:DB8:0:0:0:0:0:1')).toBe('20010db8000000000000000000000001');
+  });
+
+  it('errors on invalid addresses', () => {
+    expect(() => write('2001::db8::1')).toThrowError('Invalid IPv6 2001::db8::1');
+    expect(() => write('2001:db8:1')).toThrowError('Invalid IPv6 2001:db8:1');
+    expect(() => write('1:2:3:4:5:6:7::8')).toThrowError('Invalid IPv6 1:2:3:4:5:6:7::8');
+    expect(() => write('2001:db8::g')).toThrowError('Invalid IPv6 2001:db8::g');
+  });
+});
+
+describe('MAC', () => {
+  it('reads colon separated hex', () => {
+    const result = new Spec()
+      .field('address', MAC)
+      .exec(Buffer.from([0x00, 0x1A, 0x2B, 0x3C, 0x4D, 0x5E]));
+
+    expect(result.address).toBe('00:1a:2b:3c:4d:5e');
+  });
+
+  it('writes colon or hyphen separated hex', () => {
+    const spec = new Spec()
+      .field('first', MAC)
+      .field('second', MAC);
+
+    const result = spec.write({ first: '00:1a:2b:3c:4d:5e', second: '00-1A-2B-3C-4D-5F' });
+
+    expect(result).toBeHex('001A2B3C4D5E001A2B3C4D5F');
+  });
+
+  it('errors on invalid addresses', () => {
+    const spec = new Spec()
+      .field('address', MAC);
+
+    expect(() => spec.write({ address: '00:1a-2b:3c:4d:5e' })).toThrowError('Invalid MAC 00:1a-2b:3c:4d:5e');
+  });
+});
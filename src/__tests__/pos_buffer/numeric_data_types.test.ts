@@ -1,6 +1,7 @@
 import { Spec } from '../../payload_spec/payload_spec';
-import { Mode } from '../../pos_buffer/pos_buffer';
-import { UInt8, Int8, UInt16, Int16, UInt32, Int32, Float, Double } from '../../pos_buffer/types';
+import { Mode, PosBuffer } from '../../pos_buffer/pos_buffer';
+import { UInt8, Int8, UInt16, Int16, UInt32, Int32, UInt64, Int64, Float, Double, Float16, BFloat16, VarUInt, VarInt, ZigZag, Fixed, ArrayOf } from '../../pos_buffer/types';
+import '../matchers';
 
 describe('UInt8', () => {
   it('reads a single unsigned int', () => {
@@ -237,6 +238,80 @@ describe('Int32', () => {
   });
 });
 
+describe('UInt64', () => {
+  it('reads a single unsigned 64 bit int as a bigint', () => {
+    const spec = new Spec();
+
+    spec.field('timestamp', UInt64);
+
+    const result: any = spec.exec(Buffer.from([0x16, 0x39, 0xB5, 0x39, 0x40, 0x18, 0x00, 0x00]));
+
+    expect(result.timestamp).toBe(BigInt('1601510400000000000'));
+  });
+
+  it('observes endianness', () => {
+    const spec = new Spec({ mode: Mode.LE });
+
+    spec.field('timestamp', UInt64);
+
+    const result: any = spec.exec(Buffer.from([0x00, 0x00, 0x18, 0x40, 0x39, 0xB5, 0x39, 0x16]));
+
+    expect(result.timestamp).toBe(BigInt('1601510400000000000'));
+  });
+
+  it('can return a number if the value is safe', () => {
+    const spec = new Spec();
+
+    spec.field('count', UInt64, { asNumber: true });
+
+    const result: any = spec.exec(Buffer.from([0x00, 0x1F, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF]));
+
+    expect(result.count).toBe(Number.MAX_SAFE_INTEGER);
+  });
+
+  it('round trips through write', () => {
+    const spec = new Spec()
+      .field('timestamp', UInt64)
+      .field('counter', UInt64, { asNumber: true });
+
+    const buffer = Buffer.from([0x16, 0x39, 0xB5, 0x39, 0x40, 0x18, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x2A]);
+
+    expect(spec.write(spec.read(buffer))).toEqual(buffer);
+  });
+});
+
+describe('Int64', () => {
+  it('reads a single signed 64 bit int as a bigint', () => {
+    const spec = new Spec();
+
+    spec.field('offset', Int64);
+
+    const result: any = spec.exec(Buffer.from([0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0x00]));
+
+    expect(result.offset).toBe(BigInt(-256));
+  });
+
+  it('returns a bigint when asNumber is specified but the value is not safe', () => {
+    const spec = new Spec();
+
+    spec.field('offset', Int64, { asNumber: true });
+
+    const result: any = spec.exec(Buffer.from([0x80, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00]));
+
+    expect(result.offset).toBe(BigInt('-9223372036854775808'));
+  });
+
+  it('can be skipped', () => {
+    const spec = new Spec()
+      .skip(Int64)
+      .field('last', UInt8);
+
+    const result: any = spec.exec(Buffer.from([0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0x00, 0x01]));
+
+    expect(result.last).toBe(1);
+  });
+});
+
 describe('Float', () => {
   it('reads a signed float', () => {
     const spec = new Spec();
@@ -283,6 +358,60 @@ describe('Float', () => {
   })
 });
 
+describe('Float16', () => {
+  it('reads a half precision float', () => {
+    const spec = new Spec();
+
+    spec.field('weight', Float16);
+
+    const result: any = spec.exec(Buffer.from([0x42, 0x48]));
+
+    expect(result.weight).toBe(3.140625);
+  });
+
+  it('observes endianness', () => {
+    const spec = new Spec({ mode: Mode.LE });
+
+    spec.field('weight', Float16);
+
+    const result: any = spec.exec(Buffer.from([0x48, 0x42]));
+
+    expect(result.weight).toBe(3.140625);
+  });
+
+  it('supports option for decimal places', () => {
+    const spec = new Spec();
+
+    spec.field('weight', Float16, { dp: 2 });
+
+    const result: any = spec.exec(Buffer.from([0x42, 0x48]));
+
+    expect(result.weight).toBe(3.14);
+  });
+});
+
+describe('BFloat16', () => {
+  it('reads a bfloat16', () => {
+    const spec = new Spec();
+
+    spec.field('activation', BFloat16, { dp: 2 });
+
+    const result: any = spec.exec(Buffer.from([0xC0, 0x49]));
+
+    expect(result.activation).toBe(-3.14);
+  });
+
+  it('round trips through write', () => {
+    const spec = new Spec()
+      .field('activation', BFloat16)
+      .field('weight', BFloat16);
+
+    const buffer = Buffer.from([0xC0, 0x49, 0x3F, 0x80]);
+
+    expect(spec.write(spec.read(buffer))).toEqual(buffer);
+  });
+});
+
 describe('Double', () => {
   it('reads a signed double', () => {
     const spec = new Spec();
@@ -328,4 +457,305 @@ describe('Double', () => {
     expect(result.count10dp).toBe(-902.8723772312);
 
   })
-});
\ No newline at end of file
+});
+
+describe('Fixed', () => {
+  it('reads signed fixed point values', () => {
+    const spec = new Spec()
+      .field('gain', Fixed(16, 16))
+      .field('offset', Fixed(16, 16))
+      .field('coefficient', Fixed(1, 15));
+
+    const result: any = spec.exec(Buffer.from([0x00, 0x01, 0x80, 0x00, 0xFF, 0xFF, 0x80, 0x00, 0x80, 0x00]));
+
+    expect(result.gain).toBe(1.5);
+    expect(result.offset).toBe(-0.5);
+    expect(result.coefficient).toBe(-1);
+  });
+
+  it('reads unsigned fixed point values', () => {
+    const spec = new Spec()
+      .field('level', Fixed(8, 8, false));
+
+    const result: any = spec.exec(Buffer.from([0xFF, 0x80]));
+
+    expect(result.level).toBe(255.5);
+  });
+
+  it('observes endianness', () => {
+    const spec = new Spec({ mode: Mode.LE })
+      .field('coefficient', Fixed(1, 15));
+
+    const result: any = spec.exec(Buffer.from([0xFF, 0x7F]));
+
+    expect(result.coefficient).toBe(0.999969482421875);
+  });
+
+  it('rounds to the nearest value when writing, with ties to even', () => {
+    const spec = new Spec()
+      .field('third', Fixed(8, 8, false))
+      .field('tieDown', Fixed(8, 8, false))
+      .field('tieUp', Fixed(8, 8, false))
+      .field('negative', Fixed(16, 16));
+
+    const result = spec.write({ third: 1/3, tieDown: 2.5/256, tieUp: 3.5/256, negative: -0.5 });
+
+    expect(result).toBeHex('005500020004FFFF8000');
+  });
+
+  it('rounds negative ties to even when writing', () => {
+    const spec = new Spec()
+      .field('tieUp', Fixed(7, 1))
+      .field('tieDown', Fixed(7, 1));
+
+    const result = spec.write({ tieUp: -1.25, tieDown: -1.75 });
+
+    expect(result).toBeHex('FEFC');
+  });
+
+  it('errors if the value is out of range when writing', () => {
+    const spec = new Spec()
+      .field('coefficient', Fixed(1, 15));
+
+    expect(() => spec.write({ coefficient: 1 })).toThrowError('Value 1 is out of range for Q1.15');
+  });
+
+  it('must be a whole number of bytes', () => {
+    expect(() => Fixed(3, 4)).toThrowError('Fixed point width must be a whole number of bytes up to 48 bits but was 7');
+    expect(() => Fixed(32, 32)).toThrowError('Fixed point width must be a whole number of bytes up to 48 bits but was 64');
+  });
+
+  it('describes its format', () => {
+    const Q16_16 = Fixed(16, 16);
+
+    expect(Q16_16.integerBits).toBe(16);
+    expect(Q16_16.fractionalBits).toBe(16);
+    expect(Q16_16.signed).toBe(true);
+    expect(Fixed(16, 16)).toBe(Q16_16);
+    expect(new Q16_16().bitSize()).toBe(32);
+  });
+});
+
+describe('VarUInt', () => {
+  it('reads an unsigned LEB128 value', () => {
+    const spec = new Spec()
+      .field('small', VarUInt)
+      .field('large', VarUInt)
+      .field('last', UInt8);
+
+    const result: any = spec.exec(Buffer.from([0x7F, 0xE5, 0x8E, 0x26, 0x01]));
+
+    expect(result.small).toBe(127);
+    expect(result.large).toBe(624485);
+    expect(result.last).toBe(1);
+  });
+
+  it('returns a bigint if the value is too large for a number', () => {
+    const spec = new Spec()
+      .field('max', VarUInt);
+
+    const result: any = spec.exec(Buffer.from([0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0x01]));
+
+    expect(result.max).toBe(BigInt('18446744073709551615'));
+  });
+
+  it('errors if the value runs past the end of the buffer', () => {
+    const spec = new Spec()
+      .field('broken', VarUInt);
+
+    expect(() => spec.exec(Buffer.from([0xE5, 0x8E]))).toThrowError('Attempt to read outside of the buffer');
+  });
+
+  it('writes an unsigned LEB128 value', () => {
+    const spec = new Spec()
+      .field('zero', VarUInt)
+      .field('large', VarUInt)
+      .field('last', UInt8);
+
+    const result = spec.write({ zero: 0, large: 624485, last: 1 });
+
+    expect(result).toBeHex('00E58E2601');
+  });
+
+  it('refuses to write negative values', () => {
+    const spec = new Spec()
+      .field('negative', VarUInt);
+
+    expect(() => spec.write({ negative: -1 })).toThrowError('VarUInt cannot encode negative value -1');
+  });
+});
+
+describe('VarInt', () => {
+  it('reads a signed LEB128 value', () => {
+    const spec = new Spec()
+      .field('negative', VarInt)
+      .field('positive', VarInt)
+      .field('minusOne', VarInt);
+
+    const result: any = spec.exec(Buffer.from([0xC0, 0xBB, 0x78, 0x3F, 0x7F]));
+
+    expect(result.negative).toBe(-123456);
+    expect(result.positive).toBe(63);
+    expect(result.minusOne).toBe(-1);
+  });
+
+  it('writes a signed LEB128 value', () => {
+    const spec = new Spec()
+      .field('negative', VarInt)
+      .field('positive', VarInt)
+      .field('signBitSet', VarInt);
+
+    const result = spec.write({ negative: -123456, positive: 63, signBitSet: 64 });
+
+    expect(result).toBeHex('C0BB783FC000');
+  });
+});
+
+describe('ZigZag', () => {
+  it('reads zigzag encoded values', () => {
+    const spec = new Spec()
+      .field('zero', ZigZag)
+      .field('minusOne', ZigZag)
+      .field('one', ZigZag)
+      .field('large', ZigZag);
+
+    const result: any = spec.exec(Buffer.from([0x00, 0x01, 0x02, 0xFF, 0xFF, 0xFF, 0xFF, 0x0F]));
+
+    expect(result.zero).toBe(0);
+    expect(result.minusOne).toBe(-1);
+    expect(result.one).toBe(1);
+    expect(result.large).toBe(-2147483648);
+  });
+
+  it('round trips through write', () => {
+    const spec = new Spec()
+      .field('zero', ZigZag)
+      .field('minusOne', ZigZag)
+      .field('one', ZigZag)
+      .field('large', ZigZag);
+
+    const buffer = Buffer.from([0x00, 0x01, 0x02, 0xFF, 0xFF, 0xFF, 0xFF, 0x0F]);
+
+    expect(spec.write(spec.read(buffer))).toEqual(buffer);
+  });
+});
+describe('ArrayOf', () => {
+  it('reads a run of numbers using a dynamic length', () => {
+    const spec = new Spec()
+      .field('n', UInt8)
+      .field('samples', ArrayOf(Int16, { length: r => r.n }))
+      .field('last', UInt8);
+
+    const result = spec.exec(Buffer.from([0x03, 0x00, 0x01, 0xFF, 0xFF, 0x80, 0x00, 0x07]));
+
+    expect(result.samples).toEqual([1, -1, -32768]);
+    expect(result.last).toBe(7);
+  });
+
+  it('can read into a typed array', () => {
+    const spec = new Spec()
+      .field('samples', ArrayOf(Int16, { length: 2, typed: true }), { mode: Mode.LE });
+
+    const result = spec.exec(Buffer.from([0x01, 0x00, 0xFF, 0xFF]));
+
+    expect(result.samples).toBeInstanceOf(Int16Array);
+    expect(Array.from(result.samples)).toEqual([1, -1]);
+  });
+
+  it('honours the mode of the spec', () => {
+    const spec = new Spec({ mode: Mode.LE })
+      .field('samples', ArrayOf(UInt32, { length: 2 }));
+
+    const result = spec.exec(Buffer.from([0x01, 0x00, 0x00, 0x00, 0x02, 0x00, 0x00, 0x00]));
+
+    expect(result.samples).toEqual([1, 2]);
+  });
+
+  it('reads to the end of the buffer if no length is given', () => {
+    const spec = new Spec()
+      .field('samples', ArrayOf(UInt16));
+
+    const result = spec.exec(Buffer.from([0x00, 0x01, 0x00, 0x02, 0x00, 0x03]));
+
+    expect(result.samples).toEqual([1, 2, 3]);
+  });
+
+  it('accepts the length as a field option', () => {
+    const spec = new Spec()
+      .field('n', UInt8)
+      .field('values', ArrayOf(Float, { typed: true }), { length: r => r.n });
+
+    const result = spec.exec(Buffer.from([0x01, 0x3F, 0x80, 0x00, 0x00, 0x01]));
+
+    expect(result.values).toEqual(new Float32Array([1]));
+  });
+
+  it('reads elements that are not plain numbers one at a time', () => {
+    const spec = new Spec()
+      .field('values', ArrayOf(VarUInt, { length: 2 }))
+      .field('bigs', ArrayOf(UInt64, { length: 1, typed: true }))
+      .field('last', UInt8);
+
+    const result = spec.exec(Buffer.from([0xAC, 0x02, 0x01, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x05, 0x09]));
+
+    expect(result.values).toEqual([300, 1]);
+    expect(result.bigs).toEqual(new BigUint64Array([BigInt(5)]));
+    expect(result.last).toBe(9);
+  });
+
+  it('reads variable length elements to the end of the buffer', () => {
+    const spec = new Spec()
+      .field('values', ArrayOf(VarUInt));
+
+    const result = spec.exec(Buffer.from([0xAC, 0x02, 0x01, 0x7F]));
+
+    expect(result.values).toEqual([300, 1, 127]);
+  });
+
+  it('errors if the buffer is too short', () => {
+    const spec = new Spec()
+      .field('samples', ArrayOf(Int16, { length: 3 }));
+
+    expect(() => spec.exec(Buffer.from([0x00, 0x01, 0x00, 0x02]))).toThrowError('Attempt to read outside of the buffer');
+  });
+
+  it('errors if a typed array is not available for the type', () => {
+    expect(() => ArrayOf(VarUInt, { typed: true })).toThrowError('There is no typed array for VarUInt');
+  });
+
+  it('writes an array', () => {
+    const spec = new Spec()
+      .field('n', UInt8)
+      .field('samples', ArrayOf(Int16, { length: r => r.n }), { mode: Mode.LE })
+      .field('varints', ArrayOf(VarUInt));
+
+    const result = spec.write({ n: 2, samples: new Int16Array([1, -1]), varints: [300, 1] });
+
+    expect(result).toBeHex('020100FFFFAC0201');
+  });
+
+  it('errors when writing the wrong number of elements', () => {
+    const spec = new Spec()
+      .field('samples', ArrayOf(Int16, { length: 2 }));
+
+    expect(() => spec.write({ samples: [1, 2, 3] })).toThrowError('Expected 2 elements but there were 3');
+  });
+
+  it('uses its own length when used directly with a PosBuffer', () => {
+    const buffer = new PosBuffer([0x00, 0x01, 0x00, 0x02, 0x00, 0x03]);
+
+    expect(buffer.read(ArrayOf(Int16, { length: 2 }))).toEqual([1, 2]);
+    expect(() => new PosBuffer([]).write(ArrayOf(Int16, { length: 2 }), [1, 2, 3])).toThrowError('Expected 2 elements but there were 3');
+  });
+
+  it('reads a large number of samples', () => {
+    const samples = new Int16Array(100000).map((_, i) => i - 50000);
+    const spec = new Spec()
+      .field('samples', ArrayOf(Int16, { typed: true }), { mode: Mode.LE });
+
+    const result = spec.exec(Buffer.from(samples.buffer));
+
+    expect(result.samples).toEqual(samples);
+    expect(spec.write(result)).toEqual(Buffer.from(samples.buffer));
+  });
+});
@@ -1,5 +1,7 @@
 import { Spec } from '../../payload_spec/payload_spec'
-import { Text, Int8, Int16, UInt8, Bit, Bits2, Bits3, Bits4, Bits5, Bits6, Bits7, Bool, Bits8, Bits9, Bits10, Bits11, Bits12, Bits13, Bits14, Bits15, Bits16 } from '../../pos_buffer/types';
+import { Text, Int8, Int16, UInt8, Bit, Bits2, Bits3, Bits4, Bits5, Bits6, Bits7, Bool, Bits8, Bits9, Bits10, Bits11, Bits12, Bits13, Bits14, Bits15, Bits16, Bits, SignedBits, BCD, PackedDecimal, Enum, UInt16, Flags, UInt64, Bytes, VarUInt } from '../../pos_buffer/types';
+import { Mode } from '../../pos_buffer/pos_buffer';
+import '../matchers';
 
 describe('Text', () => {
   it('reads text as ascii', () => {
@@ -124,8 +126,340 @@ describe('Text', () => {
 
     expect(result.number).toBe('12');
   })
+
+  it('keeps later fields in place when writing a fixed size field', () => {
+    const spec = new Spec()
+      .field('name', Text, { size: 8, padding: ' ' })
+      .field('last', UInt8);
+
+    const result = spec.write({ name: 'bob', last: 1 });
+
+    expect(result).toBeHex('626F62202020202001');
+    expect(spec.read(result)).toEqual({ name: 'bob', last: 1 });
+  })
+
+  it('can read the length from a prefix', () => {
+    const spec = new Spec()
+      .field('name', Text, { prefix: UInt8 })
+      .field('last', UInt8);
+
+    const result = spec.exec(Buffer.from([0x03, 0x62, 0x6f, 0x62, 0x01]));
+
+    expect(result.name).toBe('bob');
+    expect(result.last).toBe(1);
+  })
+
+  it('reads the prefix using the mode of the field', () => {
+    const spec = new Spec()
+      .field('name', Text, { prefix: UInt16, mode: Mode.LE })
+      .field('varName', Text, { prefix: VarUInt });
+
+    const result = spec.exec(Buffer.from([0x03, 0x00, 0x62, 0x6f, 0x62, 0x02, 0x6e, 0x65]));
+
+    expect(result.name).toBe('bob');
+    expect(result.varName).toBe('ne');
+  })
+
+  it('errors if the prefixed length is longer than the buffer', () => {
+    const spec = new Spec()
+      .field('name', Text, { prefix: UInt8 });
+
+    expect(() => spec.exec(Buffer.from([0x04, 0x62, 0x6f, 0x62]))).toThrowError('Attempt to read outside of the buffer');
+  })
+
+  it('writes the length prefix', () => {
+    const spec = new Spec()
+      .field('name', Text, { prefix: UInt16, mode: Mode.LE })
+      .field('varName', Text, { prefix: VarUInt })
+      .field('last', UInt8);
+
+    const result = spec.write({ name: 'bob', varName: 'ne', last: 1 });
+
+    expect(result).toBeHex('0300626F62026E6501');
+  })
+
+  it('errors if the length does not fit in the prefix', () => {
+    const spec = new Spec()
+      .field('name', Text, { prefix: UInt8 });
+
+    expect(() => spec.write({ name: 'a'.repeat(256) })).toThrowError();
+  })
 })
 
+describe('Bytes', () => {
+  it('can read the length from a prefix', () => {
+    const spec = new Spec()
+      .field('payload', Bytes, { prefix: UInt8 })
+      .field('last', UInt8);
+
+    const result = spec.exec(Buffer.from([0x02, 0xAB, 0xCD, 0x01]));
+
+    expect(result.payload).toBeHex('ABCD');
+    expect(result.last).toBe(1);
+  })
+
+  it('round trips a prefixed field through write', () => {
+    const spec = new Spec()
+      .field('payload', Bytes, { prefix: UInt8 })
+      .field('last', UInt8);
+
+    const buffer = Buffer.from([0x02, 0xAB, 0xCD, 0x01]);
+
+    expect(spec.write(spec.read(buffer))).toEqual(buffer);
+  })
+})
+
+
+describe('BCD', () => {
+  it('reads one digit per nibble', () => {
+    const spec = new Spec()
+      .field('reading', BCD, { digits: 6 })
+      .field('hours', BCD);
+
+    const result = spec.exec(Buffer.from([0x01, 0x23, 0x45, 0x23]));
+
+    expect(result.reading).toBe(12345);
+    expect(result.hours).toBe(23);
+  });
+
+  it('ignores the padding nibble for an odd number of digits', () => {
+    const spec = new Spec()
+      .field('reading', BCD, { digits: 3 });
+
+    const result = spec.exec(Buffer.from([0x01, 0x23]));
+
+    expect(result.reading).toBe(123);
+  });
+
+  it('can return a string, keeping leading zeroes', () => {
+    const spec = new Spec()
+      .field('serial', BCD, { digits: 8, asString: true });
+
+    const result = spec.exec(Buffer.from([0x00, 0x12, 0x34, 0x56]));
+
+    expect(result.serial).toBe('00123456');
+  });
+
+  it('errors on invalid digits', () => {
+    const spec = new Spec()
+      .field('reading', BCD, { digits: 4 });
+
+    expect(() => spec.exec(Buffer.from([0x12, 0x3A]))).toThrowError('Invalid decimal digit 0xA at byte 0');
+  });
+
+  it('errors if the padding nibble is not zero', () => {
+    const spec = new Spec()
+      .field('reading', BCD, { digits: 3 });
+
+    expect(() => spec.exec(Buffer.from([0xF1, 0x23]))).toThrowError('Invalid decimal padding 0xF at byte 0');
+  });
+
+  it('writes numbers and strings', () => {
+    const spec = new Spec()
+      .field('reading', BCD, { digits: 6 })
+      .field('serial', BCD, { digits: 3 })
+      .field('hours', BCD);
+
+    const result = spec.write({ reading: 12345, serial: '042', hours: 7 });
+
+    expect(result).toBeHex('012345004207');
+  });
+
+  it('errors if the value has too many digits or is not a number', () => {
+    const spec = new Spec()
+      .field('hours', BCD);
+
+    expect(() => spec.write({ hours: 123 })).toThrowError('Value 123 has more than 2 digits');
+    expect(() => spec.write({ hours: 'ab' })).toThrowError('Value ab is not a whole decimal number');
+    expect(() => spec.write({ hours: -1 })).toThrowError('BCD cannot encode negative values');
+  });
+});
+
+describe('PackedDecimal', () => {
+  it('reads digits followed by a sign nibble', () => {
+    const spec = new Spec()
+      .field('balance', PackedDecimal, { digits: 5 })
+      .field('adjustment', PackedDecimal, { digits: 4 })
+      .field('unsigned', PackedDecimal, { digits: 1 });
+
+    const result = spec.exec(Buffer.from([0x12, 0x34, 0x5C, 0x00, 0x12, 0x3D, 0x7F]));
+
+    expect(result.balance).toBe(12345);
+    expect(result.adjustment).toBe(-123);
+    expect(result.unsigned).toBe(7);
+  });
+
+  it('can return a string', () => {
+    const spec = new Spec()
+      .field('adjustment', PackedDecimal, { digits: 4, asString: true });
+
+    const result = spec.exec(Buffer.from([0x00, 0x12, 0x3D]));
+
+    expect(result.adjustment).toBe('-0123');
+  });
+
+  it('errors on an invalid sign', () => {
+    const spec = new Spec()
+      .field('balance', PackedDecimal, { digits: 3 });
+
+    expect(() => spec.exec(Buffer.from([0x12, 0x34]))).toThrowError('Invalid packed decimal sign 0x4');
+  });
+
+  it('round trips through write', () => {
+    const spec = new Spec()
+      .field('balance', PackedDecimal, { digits: 5 })
+      .field('adjustment', PackedDecimal, { digits: 4 });
+
+    const buffer = Buffer.from([0x12, 0x34, 0x5C, 0x00, 0x12, 0x3D]);
+
+    expect(spec.write(spec.read(buffer))).toEqual(buffer);
+  });
+});
+
+describe('Enum', () => {
+  const MessageKind = Enum(UInt8, { PING: 1, PONG: 2 });
+
+  it('reads the name of the value', () => {
+    const spec = new Spec()
+      .field('kind', MessageKind)
+      .field('reply', MessageKind);
+
+    const result = spec.exec(Buffer.from([0x01, 0x02]));
+
+    expect(result.kind).toBe('PING');
+    expect(result.reply).toBe('PONG');
+  });
+
+  it('writes the value for the name', () => {
+    const spec = new Spec()
+      .field('kind', MessageKind)
+      .field('reply', MessageKind);
+
+    const result = spec.write({ kind: 'PONG', reply: 'PING' });
+
+    expect(result).toBeHex('0201');
+  });
+
+  it('throws on unknown values by default', () => {
+    const spec = new Spec()
+      .field('kind', MessageKind);
+
+    expect(() => spec.exec(Buffer.from([0x03]))).toThrowError('Unknown enum value 3');
+    expect(() => spec.write({ kind: 'PANG' })).toThrowError('Unknown enum name PANG');
+    expect(() => spec.write({ kind: 3 })).toThrowError('Unknown enum value 3');
+  });
+
+  it('can return the raw value for unknown values', () => {
+    const spec = new Spec()
+      .field('kind', Enum(UInt8, { PING: 1, PONG: 2 }, { unknown: 'raw' }));
+
+    const result = spec.exec(Buffer.from([0x03]));
+
+    expect(result.kind).toBe(3);
+    expect(spec.write(result)).toBeHex('03');
+  });
+
+  it('can return a fallback name for unknown values', () => {
+    const spec = new Spec()
+      .field('kind', Enum(UInt8, { PING: 1, PONG: 2 }, { unknown: 'fallback', fallback: 'OTHER' }));
+
+    const result = spec.exec(Buffer.from([0x03]));
+
+    expect(result.kind).toBe('OTHER');
+  });
+
+  it('requires a fallback name for the fallback policy', () => {
+    expect(() => Enum(UInt8, { PING: 1 }, { unknown: 'fallback' })).toThrowError('A fallback name must be provided when unknown values use the fallback policy');
+  });
+
+  it('uses the options of the field for the underlying type', () => {
+    const spec = new Spec()
+      .field('status', Enum(UInt16, { OK: 0x0100, ERROR: 0xFF00 }), { mode: Mode.LE })
+      .field('check', Enum(Bits(4), { ON: 0xA }, { unknown: 'raw' }))
+
+    const result = spec.exec(Buffer.from([0x00, 0x01, 0xA0]));
+
+    expect(result.status).toBe('OK');
+    expect(result.check).toBe('ON');
+  });
+
+  it('exposes the values', () => {
+    expect(MessageKind.values).toEqual({ PING: 1, PONG: 2 });
+  });
+});
+
+describe('Flags', () => {
+  const Status = Flags(UInt16, { ready: 0, charging: 1, fault: 8, lowBattery: 15 });
+
+  it('reads a mask into named booleans', () => {
+    const spec = new Spec()
+      .field('status', Status);
+
+    const result = spec.exec(Buffer.from([0x81, 0x01]));
+
+    expect(result.status).toEqual({ ready: true, charging: false, fault: true, lowBattery: true });
+  });
+
+  it('follows the endianness of the field', () => {
+    const spec = new Spec()
+      .field('status', Status, { mode: Mode.LE });
+
+    const result = spec.exec(Buffer.from([0x02, 0x01]));
+
+    expect(result.status).toEqual({ ready: false, charging: true, fault: true, lowBattery: false });
+  });
+
+  it('can return an array of set flags', () => {
+    const spec = new Spec()
+      .field('status', Flags(UInt16, { ready: 0, charging: 1, fault: 8, lowBattery: 15 }, { asArray: true }));
+
+    const result = spec.exec(Buffer.from([0x81, 0x01]));
+
+    expect(result.status).toEqual(['ready', 'fault', 'lowBattery']);
+  });
+
+  it('can read flags from a range of bits', () => {
+    const spec = new Spec()
+      .field('version', Bits(4))
+      .field('options', Flags(Bits(4), { ack: 0, retry: 3 }))
+      .field('check', UInt8);
+
+    const result = spec.exec(Buffer.from([0x29, 0xFF]));
+
+    expect(result.version).toBe(2);
+    expect(result.options).toEqual({ ack: true, retry: true });
+    expect(result.check).toBe(255);
+  });
+
+  it('writes flags from an object or an array', () => {
+    const spec = new Spec()
+      .field('status', Status)
+      .field('copy', Status);
+
+    const result = spec.write({ status: { ready: true, fault: true, charging: false }, copy: ['charging', 'lowBattery'] });
+
+    expect(result).toBeHex('01018002');
+  });
+
+  it('ignores unknown bits unless strict', () => {
+    const strict = Flags(UInt8, { ready: 0 }, { strict: true });
+
+    expect(new Spec().field('status', Status).exec(Buffer.from([0x00, 0x10])).status.ready).toBe(false);
+    expect(() => new Spec().field('status', strict).exec(Buffer.from([0x31]))).toThrowError('Unknown flag bits 0x30');
+    expect(() => new Spec().field('status', strict).write({ status: ['ready', 'busy'] })).toThrowError('Unknown flag busy');
+  });
+
+  it('supports 64 bit registers', () => {
+    const spec = new Spec()
+      .field('status', Flags(UInt64, { first: 0, last: 63 }));
+
+    const buffer = Buffer.from([0x80, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x01]);
+    const result = spec.exec(buffer);
+
+    expect(result.status).toEqual({ first: true, last: true });
+    expect(spec.write(result)).toEqual(buffer);
+  });
+});
 
 describe('Bool', () => {
   it('retrieves a single bit from the field as a boolean', () => {
@@ -263,4 +597,42 @@ describe('Bits', () => {
     expect(result.bits2).toBe(12);
 
   })
+
+  it('can be created for any width between 1 and 53', () => {
+    const result = new Spec()
+      .field('flags', Bits(4))
+      .field('channel', Bits(20))
+      .pad()
+      .field('check', UInt8)
+      .exec(Buffer.from([0x5A, 0xBC, 0xDE, 0xFF]))
+
+    expect(result.flags).toBe(5);
+    expect(result.channel).toBe(0xABCDE);
+    expect(result.check).toBe(255);
+  })
+})
+
+describe('SignedBits', () => {
+  it('sign extends the value', () => {
+    const result = new Spec()
+      .field('rssi', SignedBits(20))
+      .field('offset', SignedBits(24))
+      .field('positive', SignedBits(4))
+      .exec(Buffer.from([0x80, 0x00, 0x0F, 0xFF, 0xFF, 0xE7]))
+
+    expect(result.rssi).toBe(-524288);
+    expect(result.offset).toBe(-2);
+    expect(result.positive).toBe(7);
+  })
+
+  it('round trips through write', () => {
+    const spec = new Spec()
+      .field('rssi', SignedBits(20))
+      .field('offset', SignedBits(24))
+      .field('positive', SignedBits(4))
+
+    const buffer = Buffer.from([0x80, 0x00, 0x0F, 0xFF, 0xFF, 0xE7]);
+
+    expect(spec.write(spec.read(buffer))).toEqual(buffer);
+  })
 })
\ No newline at end of file
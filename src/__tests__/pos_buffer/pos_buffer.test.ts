@@ -1,5 +1,5 @@
 import { PosBuffer, Mode } from '../../pos_buffer/pos_buffer';
-import { UInt8, Int8, Int16, UInt16, Int32, UInt32, Float, Double, Text, Bool, Bit, Bits10, Bits11, Bits12, Bits13, Bits14, Bits15, Bits16, Bits2, Bits3, Bits4, Bits5, Bits6, Bits7, Bits8, Bits9, Bytes } from '../../pos_buffer/types';
+import { UInt8, Int8, Int16, UInt16, Int32, UInt32, Int64, UInt64, Float, Double, Float16, BFloat16, Text, Bool, Bit, Bits10, Bits11, Bits12, Bits13, Bits14, Bits15, Bits16, Bits2, Bits3, Bits4, Bits5, Bits6, Bits7, Bits8, Bits9, Bits, SignedBits, Bytes } from '../../pos_buffer/types';
 import '../matchers';
 
 describe('Constructing a PosBuffer', () => {
@@ -178,6 +178,125 @@ describe('Numeric types', () => {
   })
 });
 
+describe('64 bit integers', () => {
+  it('reads a UInt64 as a bigint', () => {
+    const buffer = new PosBuffer([0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFE]);
+
+    expect(buffer.read(UInt64)).toBe(BigInt('18446744073709551614'));
+  });
+
+  it('reads a UInt64 LE', () => {
+    const buffer = new PosBuffer([0xFE, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF], { endianness: Mode.LE });
+
+    expect(buffer.read(UInt64)).toBe(BigInt('18446744073709551614'));
+  });
+
+  it('reads an Int64 BE', () => {
+    const buffer = new PosBuffer([0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFE]);
+
+    expect(buffer.read(Int64)).toBe(BigInt(-2));
+  });
+
+  it('writes a UInt64 BE', () => {
+    const buffer = new PosBuffer([]);
+
+    buffer.write(UInt64, BigInt('18446744073709551614'));
+    expect(buffer).toBeHex('FFFFFFFFFFFFFFFE');
+  });
+
+  it('writes an Int64 LE', () => {
+    const buffer = new PosBuffer([], { endianness: Mode.LE });
+
+    buffer.write(Int64, BigInt(-2));
+    expect(buffer).toBeHex('FEFFFFFFFFFFFFFF');
+  });
+
+  it('accepts numbers when writing', () => {
+    const buffer = new PosBuffer([]);
+
+    buffer.write(Int64, 1024);
+    expect(buffer).toBeHex('0000000000000400');
+  });
+
+  it('returns a number if asNumber is specified and the value is safe', () => {
+    const buffer = new PosBuffer([0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x04, 0x00, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF]);
+
+    expect(buffer.read(UInt64, { asNumber: true })).toBe(1024);
+    expect(buffer.read(UInt64, { asNumber: true })).toBe(BigInt('18446744073709551615'));
+  });
+});
+
+describe('16 bit floating point numbers', () => {
+  it('reads half precision floats', () => {
+    const buffer = new PosBuffer([0x3C, 0x00, 0xC0, 0x00, 0x7B, 0xFF, 0x35, 0x55, 0x00, 0x01, 0x80, 0x00]);
+
+    expect(buffer.read(Float16)).toBe(1);
+    expect(buffer.read(Float16)).toBe(-2);
+    expect(buffer.read(Float16)).toBe(65504);
+    expect(buffer.read(Float16)).toBe(0.333251953125);
+    expect(buffer.read(Float16)).toBe(2 ** -24);
+    expect(buffer.read(Float16)).toBe(-0);
+  });
+
+  it('reads half precision infinities and NaN', () => {
+    const buffer = new PosBuffer([0x7C, 0x00, 0xFC, 0x00, 0x7E, 0x00]);
+
+    expect(buffer.read(Float16)).toBe(Infinity);
+    expect(buffer.read(Float16)).toBe(-Infinity);
+    expect(buffer.read(Float16)).toBeNaN();
+  });
+
+  it('reads half precision floats LE', () => {
+    const buffer = new PosBuffer([0x55, 0x35], { endianness: Mode.LE });
+
+    expect(buffer.read(Float16)).toBe(0.333251953125);
+  });
+
+  it('writes half precision floats, rounding to nearest even', () => {
+    const buffer = new PosBuffer([]);
+
+    buffer.write(Float16, 1/3);
+    buffer.write(Float16, 65519);
+    buffer.write(Float16, 65520);
+    buffer.write(Float16, 2 ** -25);
+    buffer.write(Float16, 3 * 2 ** -25);
+    buffer.write(Float16, -0);
+    buffer.write(Float16, NaN);
+    buffer.write(Float16, -Infinity);
+
+    expect(buffer).toBeHex('35557BFF7C000000000280007E00FC00');
+  });
+
+  it('writes half precision floats LE', () => {
+    const buffer = new PosBuffer([], { endianness: Mode.LE });
+
+    buffer.write(Float16, -2);
+
+    expect(buffer).toBeHex('00C0');
+  });
+
+  it('reads bfloat16', () => {
+    const buffer = new PosBuffer([0x3F, 0x80, 0x40, 0x49, 0x00, 0x01, 0x7F, 0x80, 0xFF, 0xC0]);
+
+    expect(buffer.read(BFloat16)).toBe(1);
+    expect(buffer.read(BFloat16)).toBe(3.140625);
+    expect(buffer.read(BFloat16)).toBe(2 ** -133);
+    expect(buffer.read(BFloat16)).toBe(Infinity);
+    expect(buffer.read(BFloat16)).toBeNaN();
+  });
+
+  it('writes bfloat16', () => {
+    const buffer = new PosBuffer([], { endianness: Mode.LE });
+
+    buffer.write(BFloat16, 3.14159);
+    buffer.write(BFloat16, 2 ** -133);
+    buffer.write(BFloat16, 3.5e38);
+    buffer.write(BFloat16, NaN);
+
+    expect(buffer).toBeHex('49400100807FC07F');
+  });
+});
+
 describe('Floating point numbers', () => {
   it('reads a signed float', () => {
     const buffer = new PosBuffer([0x40, 0x49, 0x0F, 0xD0]);
@@ -328,6 +447,68 @@ describe('Text', () => {
     expect(buffer).toBeHex('626F62');
   });
 
+  it('only pads when padding is specified', () => {
+    const buffer = new PosBuffer([]);
+
+    buffer.write(Text, 'bob', { size: 5 })
+    buffer.write(Text, 'bob', { size: 5, padding: 0 })
+    expect(buffer).toBeHex('626F62' + '626F620000');
+  });
+
+  it('strips NUL padding when it is specified', () => {
+    const buffer = new PosBuffer([0x62, 0x6F, 0x62, 0x00, 0x00]);
+
+    expect(buffer.read(Text, { size: 5, padding: 0 })).toBe('bob');
+  });
+
+  it('pads with the specified padding character', () => {
+    const buffer = new PosBuffer([]);
+
+    buffer.write(Text, 'bob', { size: 5, padding: ' ' })
+    buffer.write(Text, 'bob', { size: 5, padding: 0xFF })
+    expect(buffer).toBeHex('626F622020626F62FFFF');
+  });
+
+  it('pads on the left if aligned right', () => {
+    const buffer = new PosBuffer([]);
+
+    buffer.write(Text, '42', { size: 5, padding: '0', align: 'right' })
+    expect(buffer).toBeHex('3030303432');
+  });
+
+  it('strips trailing padding when reading', () => {
+    const buffer = new PosBuffer([0x62, 0x6f, 0x62, 0x20, 0x20, 0x31]);
+
+    expect(buffer.read(Text, { size: 5, padding: ' ' })).toBe('bob');
+    expect(buffer.read(Text, { size: 1 })).toBe('1');
+  });
+
+  it('strips leading padding when aligned right', () => {
+    const buffer = new PosBuffer([0x30, 0x30, 0x30, 0x34, 0x32]);
+
+    expect(buffer.read(Text, { size: 5, padding: '0', align: 'right' })).toBe('42');
+  });
+
+  it('only strips padding if it is specified', () => {
+    const buffer = new PosBuffer([0x62, 0x6f, 0x62, 0x00, 0x00]);
+
+    expect(buffer.read(Text, { size: 5 })).toBe('bob\u0000\u0000');
+  });
+
+  it('pads using whole characters of the encoding', () => {
+    const buffer = new PosBuffer([]);
+
+    buffer.write(Text, 'ab', { size: 8, padding: ' ', encoding: 'utf16le' })
+    expect(buffer).toBeHex('6100620020002000');
+    expect(new PosBuffer([0x61, 0x00, 0x62, 0x00, 0x20, 0x00, 0x20, 0x00]).read(Text, { size: 8, padding: ' ', encoding: 'utf16le' })).toBe('ab');
+  });
+
+  it('errors if the padding is more than one character', () => {
+    const buffer = new PosBuffer([]);
+
+    expect(() => buffer.write(Text, 'bob', { size: 5, padding: '  ' })).toThrow(new Error(`Padding must be a single character but was '  '`));
+  });
+
   it('can specify a char terminator', () => {
     const buffer = new PosBuffer([0x62, 0x6f, 0x62, 0x3B, 0x32]);
 
@@ -342,6 +523,49 @@ describe('Text', () => {
     expect(buffer).toBeHex('626F623B');
   });
 
+  it('can specify a multi-byte terminator', () => {
+    const buffer = new PosBuffer([0x62, 0x6f, 0x62, 0x0D, 0x0A, 0x32]);
+
+    expect(buffer.read(Text, { terminator: '\r\n' })).toBe('bob');
+    expect(buffer.read(Int8)).toBe(50);
+  });
+
+  it('can specify a terminator as a byte sequence', () => {
+    const buffer = new PosBuffer([0x62, 0x6f, 0x62, 0xFF, 0xFE, 0x32]);
+
+    expect(buffer.read(Text, { terminator: [0xFF, 0xFE] })).toBe('bob');
+    expect(buffer.read(Int8)).toBe(50);
+  });
+
+  it('can write a multi-byte terminator', () => {
+    const buffer = new PosBuffer([]);
+
+    buffer.write(Text, 'bob', { terminator: '\r\n' })
+    buffer.write(Text, 'bob', { terminator: Buffer.from([0xFF, 0xFE]) })
+    expect(buffer).toBeHex('626F620D0A626F62FFFE');
+  });
+
+  it('widens a byte terminator for wide encodings', () => {
+    const buffer = new PosBuffer([0x00, 0x01, 0x62, 0x00, 0x00, 0x00, 0x32]);
+
+    expect(buffer.read(Text, { terminator: 0x00, encoding: 'utf16le' })).toBe('\u0100b');
+    expect(buffer.read(Int8)).toBe(50);
+  });
+
+  it('only finds terminators aligned to the code unit', () => {
+    const buffer = new PosBuffer([0x00, 0x61, 0x62, 0x00, 0x00, 0x00, 0x32]);
+
+    expect(buffer.read(Text, { terminator: 0x00, encoding: 'utf16le' })).toBe('\u6100b');
+    expect(buffer.read(Int8)).toBe(50);
+  });
+
+  it('writes a wide terminator for wide encodings', () => {
+    const buffer = new PosBuffer([]);
+
+    buffer.write(Text, 'ab', { terminator: 0x00, encoding: 'utf16le' })
+    expect(buffer).toBeHex('610062000000');
+  });
+
   it('includes terminator in offset', () => {    
     const buffer = new PosBuffer([0x31, 0x00, 0x32, 0x00, 0x33, 0x00]);
 
@@ -386,6 +610,20 @@ describe('Bytes', () => {
   
       expect(buffer.read(Bytes, { terminator: 0x6f })).toBeHex('3262');
     });
+
+    it('reads nothing if the size is zero', () => {
+      const buffer = new PosBuffer([0x32, 0x62]);
+
+      expect(buffer.read(Bytes, { size: 0 })).toBeHex('');
+      expect(buffer.read(UInt8)).toBe(0x32);
+    });
+
+    it('can read a field of size zero at the end of the buffer', () => {
+      const buffer = new PosBuffer([0x32]);
+
+      expect(buffer.read(UInt8)).toBe(0x32);
+      expect(buffer.read(Bytes, { size: 0 })).toBeHex('');
+    });
   });
 
   describe('write', () => {
@@ -405,6 +643,23 @@ describe('Bytes', () => {
       expect(buffer).toBeHex('0102');
     });
 
+    it('pads to size if option specified', () => {
+      const buffer = new PosBuffer([]);
+
+      buffer.write(Bytes, Buffer.from([0x01, 0x02, 0x03]), { size: 5, padding: 0xFF });
+
+      expect(buffer).toBeHex('010203FFFF');
+    });
+
+    it('can write an empty field of size zero', () => {
+      const buffer = new PosBuffer([]);
+
+      buffer.write(Bytes, Buffer.from([]), { size: 0 });
+      buffer.write(UInt8, 1);
+
+      expect(buffer).toBeHex('01');
+    });
+
     it('writes a terminator if option specified', () => {
       const buffer = new PosBuffer([]);
 
@@ -551,6 +806,58 @@ describe('Bits', () => {
 
     expect(buffer).toBeHex('A5327FC377A13B55FFCAD12F40EEBF4D04');
   });
+
+  it('reads bit fields wider than 48 bits', () => {
+    const buffer = new PosBuffer([0xBF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF]);
+
+    expect(buffer.read(Bits(3))).toBe(5);
+    expect(buffer.read(Bits(53))).toBe(Number.MAX_SAFE_INTEGER);
+  });
+
+  it('reads signed bit fields', () => {
+    const buffer = new PosBuffer([0xFF, 0xFF, 0xF8, 0x00, 0x00, 0x07, 0xFF, 0xFF, 0xFF]);
+
+    expect(buffer.read(SignedBits(20))).toBe(-1);
+    expect(buffer.read(SignedBits(24))).toBe(-8388608);
+    expect(buffer.read(SignedBits(28))).toBe(134217727);
+  });
+
+  it('writes signed bit fields as twos complement', () => {
+    const buffer = new PosBuffer([]);
+
+    buffer.write(SignedBits(20), -1);
+    buffer.write(SignedBits(24), -8388608);
+    buffer.write(SignedBits(28), 134217727);
+
+    expect(buffer).toBeHex('FFFFF8000007FFFFFF');
+  });
+
+  it('writes bit fields wider than 32 bits', () => {
+    const buffer = new PosBuffer([]);
+
+    buffer.write(Bits(3), 5);
+    buffer.write(Bits(53), Number.MAX_SAFE_INTEGER);
+
+    expect(buffer).toBeHex('BFFFFFFFFFFFFF');
+  });
+
+  it('errors if reading past the end of the buffer', () => {
+    const buffer = new PosBuffer([0xFF, 0xFF]);
+
+    buffer.read(Bits(4));
+    expect(() => buffer.read(Bits(13))).toThrowError('Attempt to read outside of the buffer');
+  });
+
+  it('only supports widths from 1 to 53', () => {
+    expect(() => Bits(0)).toThrowError('Bit field width must be an integer between 1 and 53 but was 0');
+    expect(() => SignedBits(54)).toThrowError('Bit field width must be an integer between 1 and 53 but was 54');
+  });
+
+  it('returns the same type for the same width', () => {
+    expect(Bits(12)).toBe(Bits(12));
+    expect(Bits(16)).toBe(Bits16);
+    expect(SignedBits(12)).not.toBe(Bits(12));
+  });
 })
 
 describe('Chained operations', () => {
@@ -747,6 +1054,101 @@ describe('Skipping', () => {
   })
 })
 
+describe('Seeking', () => {
+  it('seeks to an absolute offset', () => {
+    const buffer = new PosBuffer([0xAE, 0xC4, 0x00, 0xC5, 0x33]);
+
+    expect(buffer.seek(3).read(UInt16)).toBe(50483);
+    expect(buffer.seek(0).read(UInt8)).toBe(174);
+  })
+
+  it('seeks relative to the current offset', () => {
+    const buffer = new PosBuffer([0xAE, 0xC4, 0x00, 0xC5, 0x33]);
+
+    expect(buffer.seekRelative(3).read(UInt8)).toBe(197);
+    expect(buffer.seekRelative(-3).read(UInt8)).toBe(196);
+  })
+
+  it('discards any bit offset', () => {
+    const buffer = new PosBuffer([0xAE, 0xC4]);
+
+    buffer.read(Bit);
+
+    expect(buffer.seekRelative(1).offset).toEqual({ bytes: 1, bits: 0 });
+  })
+
+  it('cannot seek outside the buffer', () => {
+    const buffer = new PosBuffer([0xAE, 0xC4]);
+
+    expect(() => buffer.seek(3)).toThrowError(new Error('Attempt to seek outside the buffer'));
+    expect(() => buffer.seekRelative(-1)).toThrowError(new Error('Attempt to seek outside the buffer'));
+  })
+
+  it('fills the gap when seeking forwards while writing', () => {
+    const buffer = new PosBuffer([]);
+
+    buffer.write(UInt8, 1);
+    buffer.seek(3, 0xFF);
+    buffer.write(UInt8, 2);
+    buffer.seekRelative(1);
+    buffer.write(UInt8, 3);
+
+    expect(buffer).toBeHex('01FFFF020003');
+  })
+
+  it('cannot seek backwards while writing', () => {
+    const buffer = new PosBuffer([]);
+
+    buffer.write(UInt16, 1);
+
+    expect(() => buffer.seek(1)).toThrowError(new Error('Cannot seek back to 1 when writing, as 2 bytes have already been written'));
+  })
+})
+
+describe('Aligning', () => {
+  it('moves to the next multiple of the alignment', () => {
+    const buffer = new PosBuffer([0x01, 0x00, 0x00, 0x00, 0x02, 0x00, 0x00, 0x00, 0x03]);
+
+    expect(buffer.read(UInt8)).toBe(1);
+    expect(buffer.align(4).read(UInt8)).toBe(2);
+    expect(buffer.align(8).read(UInt8)).toBe(3);
+  })
+
+  it('stays in place if already aligned', () => {
+    const buffer = new PosBuffer([0x01, 0x02, 0x03, 0x04, 0x05]);
+
+    buffer.read(UInt32);
+
+    expect(buffer.align(4).read(UInt8)).toBe(5);
+  })
+
+  it('pads bits before aligning', () => {
+    const buffer = new PosBuffer([]);
+
+    buffer.write(Bit, 1);
+    buffer.align(2);
+    buffer.write(UInt8, 2);
+
+    expect(buffer).toBeHex('800002');
+  })
+
+  it('fills the gap while writing', () => {
+    const buffer = new PosBuffer([]);
+
+    buffer.write(UInt8, 1);
+    buffer.align(4, 0xCC);
+    buffer.write(UInt8, 2);
+
+    expect(buffer).toBeHex('01CCCCCC02');
+  })
+
+  it('errors for an invalid alignment', () => {
+    const buffer = new PosBuffer([0x01]);
+
+    expect(() => buffer.align(0)).toThrowError(new Error('Alignment must be a positive whole number of bytes but was 0'));
+  })
+})
+
 describe('Peeking', () => {
   it('reads bytes at the specified offset without moving position', () => {
     const buffer = new PosBuffer([0xAE, 0xC4, 0x00, 0xC5, 0x33]);
@@ -766,6 +1168,14 @@ describe('Peeking', () => {
     expect(buffer.peek(UInt16, 0)).toBe(44740);
     expect(() => buffer.peek(UInt32, 0)).toThrowError(new Error('Attempt to peek outside of the buffer'));
   })
+
+  it('checks the bounds from the peeked offset rather than the current position', () => {
+    const buffer = new PosBuffer([0xAE, 0xC4, 0x00]);
+
+    buffer.read(UInt16);
+
+    expect(buffer.peek(UInt8, 2)).toBe(0);
+  })
 })
 
 describe('Buffer methods', () => {
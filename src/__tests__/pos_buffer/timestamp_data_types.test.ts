@@ -0,0 +1,212 @@
+import { Spec } from '../../payload_spec/payload_spec';
+import { Mode } from '../../pos_buffer/pos_buffer';
+import { UnixSeconds32, UnixSeconds64, UnixMillis64, FileTime, NtpTimestamp, DosDateTime, GpsTime } from '../../pos_buffer/types';
+import '../matchers';
+
+const october1st = new Date('2020-10-01T10:00:00Z');
+
+describe('UnixSeconds32', () => {
+  it('reads seconds since the Unix epoch as a Date', () => {
+    const spec = new Spec()
+      .field('time', UnixSeconds32);
+
+    const result = spec.exec(Buffer.from([0x5F, 0x75, 0xA8, 0xA0]));
+
+    expect(result.time).toEqual(october1st);
+  });
+
+  it('writes a Date', () => {
+    const spec = new Spec()
+      .field('time', UnixSeconds32);
+
+    const result = spec.write({ time: october1st });
+
+    expect(result).toBeHex('5F75A8A0');
+  });
+
+  it('writes zeroes if the value is missing', () => {
+    const spec = new Spec()
+      .field('time', UnixSeconds32);
+
+    expect(spec.write({})).toBeHex('00000000');
+  });
+
+  it('errors if the date is before the epoch', () => {
+    const spec = new Spec()
+      .field('time', UnixSeconds32);
+
+    expect(() => spec.write({ time: new Date('1969-12-31T23:59:59Z') })).toThrowError('1969-12-31T23:59:59.000Z is out of range for UnixSeconds32');
+  });
+});
+
+describe('UnixSeconds64', () => {
+  it('reads dates before the epoch', () => {
+    const spec = new Spec()
+      .field('time', UnixSeconds64);
+
+    const result = spec.exec(Buffer.from([0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF]));
+
+    expect(result.time).toEqual(new Date('1969-12-31T23:59:59Z'));
+  });
+});
+
+describe('UnixMillis64', () => {
+  it('reads milliseconds since the Unix epoch', () => {
+    const spec = new Spec()
+      .field('time', UnixMillis64);
+
+    const result = spec.exec(Buffer.from([0x00, 0x00, 0x01, 0x74, 0xE3, 0x9A, 0xB1, 0x7B]));
+
+    expect(result.time).toEqual(new Date('2020-10-01T10:00:00.123Z'));
+  });
+
+  it('can return nanoseconds as a bigint', () => {
+    const spec = new Spec()
+      .field('time', UnixMillis64, { asNanos: true });
+
+    const result = spec.exec(Buffer.from([0x00, 0x00, 0x01, 0x74, 0xE3, 0x9A, 0xB1, 0x7B]));
+
+    expect(result.time).toBe(BigInt('1601546400123000000'));
+  });
+});
+
+describe('FileTime', () => {
+  it('reads 100ns intervals since 1601', () => {
+    const spec = new Spec({ mode: Mode.LE })
+      .field('modified', FileTime);
+
+    const result = spec.exec(Buffer.from([0x00, 0x90, 0xE0, 0x9F, 0xD9, 0x97, 0xD6, 0x01]));
+
+    expect(result.modified).toEqual(october1st);
+  });
+
+  it('keeps full precision when using nanoseconds', () => {
+    const spec = new Spec()
+      .field('modified', FileTime, { asNanos: true, mode: Mode.LE });
+
+    const buffer = Buffer.from([0x01, 0x90, 0xE0, 0x9F, 0xD9, 0x97, 0xD6, 0x01]);
+    const result = spec.exec(buffer);
+
+    expect(result.modified).toBe(BigInt('1601546400000000100'));
+    expect(spec.write(result)).toEqual(buffer);
+  });
+});
+
+describe('NtpTimestamp', () => {
+  it('reads seconds and fractions of a second since 1900', () => {
+    const spec = new Spec()
+      .field('transmit', NtpTimestamp);
+
+    const result = spec.exec(Buffer.from([0xE3, 0x20, 0x27, 0x20, 0x80, 0x00, 0x00, 0x00]));
+
+    expect(result.transmit).toEqual(new Date('2020-10-01T10:00:00.500Z'));
+  });
+
+  it('round trips a Date', () => {
+    const spec = new Spec()
+      .field('transmit', NtpTimestamp);
+
+    const time = new Date('2020-10-01T10:00:00.123Z');
+
+    expect(spec.read(spec.write({ transmit: time })).transmit).toEqual(time);
+  });
+
+  it('errors if the date is before 1900', () => {
+    const spec = new Spec()
+      .field('transmit', NtpTimestamp);
+
+    expect(() => spec.write({ transmit: new Date('1899-12-31T23:59:59Z') })).toThrowError('1899-12-31T23:59:59.000Z is out of range for NtpTimestamp');
+  });
+});
+
+describe('DosDateTime', () => {
+  it('reads packed date and time fields', () => {
+    const spec = new Spec({ mode: Mode.LE })
+      .field('modified', DosDateTime);
+
+    const result = spec.exec(Buffer.from([0x00, 0x50, 0x41, 0x51]));
+
+    expect(result.modified).toEqual(october1st);
+  });
+
+  it('writes packed date and time fields with two second resolution', () => {
+    const spec = new Spec()
+      .field('modified', DosDateTime);
+
+    const result = spec.write({ modified: new Date('2020-10-01T10:00:03Z') });
+
+    expect(result).toBeHex('51415001');
+  });
+
+  it('errors if the date cannot be represented', () => {
+    const spec = new Spec()
+      .field('modified', DosDateTime);
+
+    expect(() => spec.write({ modified: new Date('1970-01-01T00:00:00Z') })).toThrowError('DOS date/time cannot represent the year 1970');
+  });
+
+  it('errors on an invalid date', () => {
+    const spec = new Spec()
+      .field('modified', DosDateTime);
+
+    expect(() => spec.exec(Buffer.from([0x00, 0x00, 0x00, 0x00]))).toThrowError('Invalid DOS date/time 0x00000000');
+  });
+});
+
+describe('GpsTime', () => {
+  it('reads a week number and seconds of the week', () => {
+    const spec = new Spec()
+      .field('fix', GpsTime);
+
+    const result = spec.exec(Buffer.from([0x08, 0x4D, 0x00, 0x05, 0xD2, 0xB2]));
+
+    expect(result.fix).toEqual(october1st);
+  });
+
+  it('allows the leap second offset to be specified', () => {
+    const spec = new Spec()
+      .field('fix', GpsTime, { leapSeconds: 0 });
+
+    const result = spec.exec(Buffer.from([0x08, 0x4D, 0x00, 0x05, 0xD2, 0xB2]));
+
+    expect(result.fix).toEqual(new Date('2020-10-01T10:00:18Z'));
+  });
+
+  it('writes a week number and seconds of the week', () => {
+    const spec = new Spec()
+      .field('fix', GpsTime, { mode: Mode.LE });
+
+    const result = spec.write({ fix: october1st });
+
+    expect(result).toBeHex('4D08B2D20500');
+  });
+
+  it('uses the leap second offset in effect at the time', () => {
+    const spec = new Spec()
+      .field('fix', GpsTime);
+
+    const date = new Date('2010-06-01T00:00:00Z');
+    const result = spec.write({ fix: date });
+
+    expect(result).toBeHex('06320002A30F');
+    expect(spec.exec(result).fix).toEqual(date);
+  });
+
+  it('errors if the date is before the GPS epoch', () => {
+    const spec = new Spec()
+      .field('fix', GpsTime);
+
+    expect(() => spec.write({ fix: new Date('1980-01-01T00:00:00Z') })).toThrowError('1980-01-01T00:00:00.000Z is out of range for GpsTime');
+  });
+
+  it('reads the time around a leap second', () => {
+    const spec = new Spec()
+      .field('before', GpsTime)
+      .field('after', GpsTime);
+
+    const before = new Date('2016-12-31T23:59:59Z');
+    const after = new Date('2017-01-01T00:00:00Z');
+
+    expect(spec.exec(spec.write({ before, after }))).toEqual({ before, after });
+  });
+});
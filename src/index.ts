@@ -1,3 +1,5 @@
 export * from './payload_spec/payload_spec';
 export * from './pos_buffer/types';
-export * from './pos_buffer/pos_buffer';
\ No newline at end of file
+export * from './pos_buffer/pos_buffer';
+export * from './pos_buffer/codecs';
+export * from './pos_buffer/checksums';
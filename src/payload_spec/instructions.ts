@@ -1,14 +1,46 @@
-import { PosBuffer, ReaderState, FieldOptions, DataTypeCtor, Mode, Spec } from '..';
-import { TypeOptions } from '../pos_buffer/pos_buffer';
+import { PosBuffer, ReaderState, ParentScope, FieldOptions, DataTypeCtor, Mode, Spec, WindowOptions, SubSpecOptions, LoopOptions, ParamOptions, ChecksumOptions } from '..';
+import { TypeOptions, Terminator } from '../pos_buffer/pos_buffer';
+import { FlagValues, NumericArray, ArrayCtor, Bytes, UInt8, UInt16, UInt32, NumericDataType } from '../pos_buffer/types';
+import { ChecksumAlgorithm, getChecksum } from '../pos_buffer/checksums';
 
 export type Predicate = (r: any) => boolean;
 export type ValueProvider = (r: any) => Primitive;
-export type Primitive = number | string | boolean | Buffer;
+export type Primitive = number | bigint | string | boolean | Buffer | Date | FlagValues | NumericArray;
+
+export interface LoopCondition {
+  until?: (element: any, r: any) => boolean;
+  while?: (peeked: Primitive) => boolean;
+  peek?: DataTypeCtor;
+  sentinel?: Terminator;
+}
+export type LoopRepeat = number | ((r: any) => number) | null | LoopCondition;
+export type CaseMatcher = number | string | boolean | Array<number | string | boolean> | { min?: number, max?: number } | ((v: any) => boolean);
+export type SwitchCase = [CaseMatcher, Spec];
 
 export interface Instruction<T> {
   execute(buffer: PosBuffer, readerState: ReaderState): T | undefined;
   write(buffer: PosBuffer, readerState: ReaderState): void;
 }
+
+export function scope(readerState: ReaderState): any {
+  const parent = readerState.parent ? scope(readerState.parent) : undefined;
+  const combinedState = { ...parent, ...readerState.params, ...readerState.result, ...readerState.storedVars, $parent: parent, $index: readerState.index ?? parent?.$index };
+  combinedState.$root = parent ? parent.$root : combinedState;
+  return combinedState;
+}
+
+function childState(readerState: ReaderState, params: any, index?: number): ReaderState {
+  return { result: {}, storedVars: {}, parent: readerState, index, params };
+}
+
+function sameScope(readerState: ReaderState, params: any): ParentScope {
+  return { parent: readerState.parent, index: readerState.index, params };
+}
+
+function resolveParams(options: ParamOptions, readerState: ReaderState): any {
+  const params = typeof options.params === 'function' ? options.params(scope(readerState)) : options.params;
+  return { ...readerState.params, ...params };
+}
 // ======
 export abstract class ValueProducer implements Instruction<Primitive | Array<any>> {
   constructor(public options: FieldOptions | undefined) {
@@ -30,16 +62,25 @@ export abstract class NamedValueProducer extends ValueProducer {
   protected resolveOptions(readerState: ReaderState): TypeOptions | undefined {
     if (!this.options) return undefined;
 
-    const combinedState = { ...readerState.result, ...readerState.storedVars};
+    const combinedState = scope(readerState);
 
     return {
       size: this.resolveOption(this.options.size, combinedState),
       terminator: this.options.terminator,
+      padding: this.options.padding,
+      align: this.options.align,
       dp: this.options.dp,
       encoding: this.options.encoding,
       then: this.options.then,
       before: this.options.before,
-      mode: this.options.mode
+      mode: this.options.mode,
+      asNumber: this.options.asNumber,
+      asString: this.options.asString,
+      digits: this.options.digits,
+      asNanos: this.options.asNanos,
+      leapSeconds: this.options.leapSeconds,
+      prefix: this.options.prefix,
+      length: this.resolveOption(this.options.length, combinedState)
     };
 
   }
@@ -65,6 +106,19 @@ export class Value extends NamedValueProducer {
   constructor(_name: string, private Type: DataTypeCtor, options: FieldOptions | undefined) {
     super(_name, options);
     this._shouldBe = options?.shouldBe ?? null;
+
+    if (options?.sizeOf && !(Type.prototype instanceof NumericDataType)) {
+      throw new Error(`Field ${_name} must be a fixed size numeric type to hold the size of ${options.sizeOf}`);
+    }
+  }
+
+  protected resolveOptions(readerState: ReaderState): TypeOptions | undefined {
+    const arrayLength = (this.Type as ArrayCtor).arrayOptions?.length;
+    if (typeof arrayLength !== 'function' || this.options?.length != null) {
+      return super.resolveOptions(readerState);
+    }
+
+    return { ...super.resolveOptions(readerState), length: arrayLength(scope(readerState)) };
   }
 
   execute(buffer: PosBuffer, readerState: ReaderState): Primitive | undefined {
@@ -75,10 +129,31 @@ export class Value extends NamedValueProducer {
   }
 
   write(buffer: PosBuffer, readerState: ReaderState): void {
-    const value = readerState.result[this._name];
+    const value = this.valueToWrite(readerState);
     this.check(value);
 
-    buffer.write(this.Type, value, this.resolveOptions(readerState));
+    const options = this.resolveOptions(readerState);
+    const bytes = buffer.write(this.Type, value, options);
+    buffer.recordField(this._name, { type: this.Type, options, bytes });
+  }
+
+  private valueToWrite(readerState: ReaderState): any {
+    if (this.options?.sizeOf) {
+      readerState.storedVars[this._name] = undefined;
+      return 0;
+    }
+
+    const countOf = this.options?.countOf;
+    if (countOf) {
+      const counted = readerState.result[countOf];
+      if (typeof counted?.length !== 'number') {
+        throw new Error(`Cannot count ${countOf} for ${this._name} as it has no length`);
+      }
+      readerState.storedVars[this._name] = counted.length;
+      return counted.length;
+    }
+
+    return readerState.result[this._name];
   }
 
   public check(value: any): void {
@@ -95,8 +170,7 @@ export class Calculation extends NamedValueProducer {
   }
 
   public execute(buffer: PosBuffer, readerState: ReaderState): Primitive {
-    const combinedVars = { ...readerState.result, ...readerState.storedVars }
-    return this.callback(combinedVars);
+    return this.callback(scope(readerState));
   }
 }
 // ======
@@ -114,128 +188,302 @@ export class Literal extends NamedValueProducer {
 }
 // ======
 export class IfInstruction extends ValueProducer {
-  constructor(private predicate: Predicate, private otherSpec: Spec) {
+  constructor(private predicate: Predicate, private otherSpec: Spec, private elseSpec?: Spec, private paramOptions: ParamOptions = {}) {
     super({});
   }
 
   public execute(buffer: PosBuffer, readerState: ReaderState) {
-    const shouldExec = this.predicate({ ...readerState.result, ...readerState.storedVars });
+    const spec = this.chooseSpec(readerState);
 
-    if (shouldExec) {
-      return this.otherSpec.exec(buffer, readerState);
+    if (spec) {
+      return spec.exec(buffer, { ...readerState, ...sameScope(readerState, resolveParams(this.paramOptions, readerState)) });
     }
   }
 
   public write(buffer: PosBuffer, readerState: ReaderState): void {
-    const shouldExec = this.predicate({ ...readerState.result, ...readerState.storedVars });
+    const spec = this.chooseSpec(readerState);
 
-    if (shouldExec) {
-      this.otherSpec.write(readerState.result, buffer);
+    if (spec) {
+      spec.write(readerState.result, buffer, sameScope(readerState, resolveParams(this.paramOptions, readerState)));
     }
   }
+
+  private chooseSpec(readerState: ReaderState): Spec | undefined {
+    const shouldExec = this.predicate(scope(readerState));
+
+    return shouldExec ? this.otherSpec : this.elseSpec;
+  }
 }
 // ======
 export class LookupInstruction extends ValueProducer {
-  constructor(private valueProvider: ValueProvider, private valueMap: {[k:string]: Spec}) {
+  constructor(private valueProvider: ValueProvider, private valueMap: {[k:string]: Spec} | SwitchCase[], private paramOptions: ParamOptions = {}) {
     super({});
   }
 
   public execute(buffer: PosBuffer, readerState: ReaderState) {
-    const value = this.valueProvider({ ...readerState.result, ...readerState.storedVars });
-
-    if (value == null) return;
-
-    const otherSpec = this.valueMap[value.toString()] ?? this.valueMap['default'];
+    const otherSpec = this.lookup(readerState);
 
     if (otherSpec) {
-      return otherSpec.exec(buffer);
+      return otherSpec.exec(buffer, { ...readerState, ...sameScope(readerState, resolveParams(this.paramOptions, readerState)) });
     }
   }
   
   public write(buffer: PosBuffer, readerState: ReaderState): void {
-    const value = this.valueProvider({ ...readerState.result, ...readerState.storedVars });
+    const otherSpec = this.lookup(readerState);
 
-    if (value == null) return;
+    if (otherSpec) {
+      otherSpec.write(readerState.result, buffer, sameScope(readerState, resolveParams(this.paramOptions, readerState)));
+    }
+  }
 
-    const otherSpec = this.valueMap[value.toString()] ?? this.valueMap['default'];
+  private lookup(readerState: ReaderState): Spec | undefined {
+    const value = this.valueProvider(scope(readerState));
 
-    if (otherSpec) {
-      otherSpec.write(readerState.result, buffer);
+    if (value == null) return;
+
+    if (Array.isArray(this.valueMap)) {
+      return this.valueMap.find(([matcher]) => matches(matcher, value))?.[1];
     }
+    return this.valueMap[value.toString()] ?? this.valueMap['default'];
   }
 }
 // ======
 export class LoopInstruction extends NamedValueProducer {
-  constructor(_name: string, private repeat: number | ((r: any) => number) | null, private loopSpec: Spec) {
+  private sentinel: Buffer | undefined;
+
+  constructor(_name: string, private repeat: LoopRepeat, private loopSpec: Spec, private loopOptions: LoopOptions = {}) {
     super(_name, {});
+    const sentinel = this.condition?.sentinel;
+    this.sentinel = sentinel == null ? undefined : this.convertSentinel(sentinel);
   }
 
   public execute(buffer: PosBuffer, readerState: ReaderState): Array<any> {
-    const repetitions = typeof this.repeat === 'number' ? this.repeat : typeof this.repeat === 'function' ? this.repeat({ ...readerState.result, ...readerState.storedVars }) : Number.MAX_SAFE_INTEGER;
+    const [result] = readWindow(buffer, resolveSize(this.loopOptions, readerState), (window) => this.readElements(window, readerState));
+    return result;
+  }
 
-    if (typeof repetitions !== 'number' || !Number.isInteger(repetitions)) {
-      throw new Error('Loop count must be an integer');
-    }
+  public write(buffer: PosBuffer, readerState: ReaderState): void {
+    writeWindow(buffer, resolveSize(this.loopOptions, readerState), this.loopOptions.fill, () => this.writeElements(buffer, readerState));
+  }
+
+  get name() {
+    return this._name;
+  }
+
+  private readElements(buffer: PosBuffer, readerState: ReaderState): Array<any> {
+    const repetitions = this.repetitions(readerState);
+    const params = resolveParams(this.loopOptions, readerState);
 
     const result = [];
     for (let i = 0; i < repetitions && !buffer.finished; i++) {
-      const tempState = JSON.parse(JSON.stringify(readerState));
-      result.push(this.loopSpec.exec(buffer, tempState));
+      if (this.shouldStop(buffer)) break;
+
+      const element = this.loopSpec.exec(buffer, childState(readerState, params, i));
+      result.push(element);
+
+      if (this.condition?.until && this.condition.until(element, scope(readerState))) break;
     };
 
     return result;
   }
 
-  public write(buffer: PosBuffer, readerState: ReaderState): void {
-    const repetitions = typeof this.repeat === 'number' ? this.repeat : typeof this.repeat === 'function' ? this.repeat({ ...readerState.result, ...readerState.storedVars }) : Number.MAX_SAFE_INTEGER;
-
-    if (typeof repetitions !== 'number' || !Number.isInteger(repetitions)) {
-      throw new Error('Loop count must be an integer');
-    }
+  private writeElements(buffer: PosBuffer, readerState: ReaderState): void {
+    const repetitions = this.repetitions(readerState);
+    const params = resolveParams(this.loopOptions, readerState);
 
     for (let i = 0; i < repetitions; i++) {
       const value: any = readerState.result[this._name];
       const nextContext = Array.isArray(value) ? value[i] : value;
 
-      if (!nextContext) return;
+      if (!nextContext) break;
+
+      this.loopSpec.write(nextContext, buffer, { parent: readerState, index: i, params });
+    }
 
-      const tempState = JSON.parse(JSON.stringify(nextContext));
-      this.loopSpec.write(tempState, buffer)
+    if (this.sentinel) {
+      buffer.write(Bytes, this.sentinel);
     }
   }
 
-  get name() {
-    return this._name;
+  private get condition(): LoopCondition | undefined {
+    return (this.repeat != null && typeof this.repeat === 'object') ? this.repeat : undefined;
+  }
+
+  private repetitions(readerState: ReaderState): number {
+    const repetitions = typeof this.repeat === 'number' ? this.repeat : typeof this.repeat === 'function' ? this.repeat(scope(readerState)) : Number.MAX_SAFE_INTEGER;
+
+    if (typeof repetitions !== 'number' || !Number.isInteger(repetitions)) {
+      throw new Error('Loop count must be an integer');
+    }
+    return repetitions;
+  }
+
+  private convertSentinel(sentinel: Terminator): Buffer {
+    if (typeof sentinel === 'number') {
+      return Buffer.from([sentinel]);
+    } else if (typeof sentinel === 'string') {
+      return Buffer.from(sentinel, 'utf8');
+    }
+    return Buffer.isBuffer(sentinel) ? sentinel : Buffer.from(sentinel);
+  }
+
+  private shouldStop(buffer: PosBuffer): boolean {
+    const offset = buffer.offset.bytes;
+
+    if (this.sentinel && buffer.buffer.slice(offset, offset + this.sentinel.length).equals(this.sentinel)) {
+      buffer.seekRelative(this.sentinel.length);
+      return true;
+    }
+
+    if (this.condition?.while) {
+      const peeked = buffer.peek(this.condition.peek ?? UInt8, offset);
+      return !this.condition.while(peeked);
+    }
+
+    return false;
   }
 }
 // =======
 export class IncludeInstruction extends ValueProducer {
-  constructor(private includedSpec: Spec) {
+  constructor(private includedSpec: Spec, private subSpecOptions: SubSpecOptions = {}) {
     super({});
   }
 
   public execute(buffer: PosBuffer, readerState: ReaderState) {
-    return this.includedSpec.read(buffer, readerState);
+    const params = resolveParams(this.subSpecOptions, readerState);
+    return readSubSpec(buffer, readerState, { ...readerState, ...sameScope(readerState, params) }, this.includedSpec, this.subSpecOptions);
   }
 
   public write(buffer: PosBuffer, readerState: ReaderState): void {
-    this.includedSpec.write(readerState.result, buffer);
+    const params = resolveParams(this.subSpecOptions, readerState);
+    writeSubSpec(buffer, readerState, readerState.result, sameScope(readerState, params), this.includedSpec, this.subSpecOptions);
   }
 }
 // =======
 export class GroupInstruction extends NamedValueProducer {
-  constructor(_name: string, private includedSpec: Spec) {
+  constructor(_name: string, private includedSpec: Spec, private subSpecOptions: SubSpecOptions = {}) {
+    super(_name, {});
+  }
+
+  public execute(buffer: PosBuffer, readerState: ReaderState) {
+    const params = resolveParams(this.subSpecOptions, readerState);
+    return readSubSpec(buffer, readerState, childState(readerState, params), this.includedSpec, this.subSpecOptions);
+  }
+
+  public write(buffer: PosBuffer, readerState: ReaderState): void {
+    const params = resolveParams(this.subSpecOptions, readerState);
+    writeSubSpec(buffer, readerState, readerState.result[this._name], { parent: readerState, params }, this.includedSpec, this.subSpecOptions);
+  }
+}
+// =======
+export class PointerInstruction extends NamedValueProducer {
+  constructor(_name: string, private offset: string | ((r: any) => number), private pointedSpec: Spec, private base: number | ((r: any) => number) = 0) {
     super(_name, {});
   }
 
   public execute(buffer: PosBuffer, readerState: ReaderState) {
-    return this.includedSpec.read(buffer, readerState);
+    const combinedState = scope(readerState);
+    const offset = typeof this.offset === 'string' ? combinedState[this.offset] : this.offset(combinedState);
+
+    if (typeof offset !== 'number') {
+      throw new Error(`Offset for pointer ${this._name} must be a number but was ${offset}`);
+    }
+
+    const root = buffer.root;
+    const origin = root.offset;
+    root.seek(this.resolveBase(combinedState) + offset);
+    const value = this.pointedSpec.read(root, childState(readerState, readerState.params));
+    root.offset = origin;
+
+    return value;
   }
 
   public write(buffer: PosBuffer, readerState: ReaderState): void {
-    this.includedSpec.write(readerState.result, buffer);
+    if (typeof this.offset !== 'string') {
+      throw new Error(`Pointer ${this._name} can only be written if its offset is the name of a field`);
+    }
+
+    const offsetField = buffer.writtenField(this.offset);
+    if (!offsetField) {
+      throw new Error(`Offset field ${this.offset} must be written before pointer ${this._name}`);
+    }
+
+    const base = this.resolveBase(scope(readerState));
+    const value = readerState.result[this._name];
+
+    buffer.defer(() => {
+      buffer.pad();
+      buffer.rewrite(offsetField, buffer.offset.bytes - base);
+      this.pointedSpec.write(value, buffer, { parent: readerState });
+    });
+  }
+
+  private resolveBase(combinedState: any): number {
+    return typeof this.base === 'function' ? this.base(combinedState) : this.base;
   }
 }
+// =======
+export class ChecksumInstruction extends ValueProducer {
+  private algorithm: ChecksumAlgorithm;
+  private Type: DataTypeCtor;
+
+  constructor(private _name: string, algorithm: string | ChecksumAlgorithm, private checksumOptions: ChecksumOptions = {}) {
+    super({});
+    this.algorithm = getChecksum(algorithm);
+
+    const Type = ({ 1: UInt8, 2: UInt16, 4: UInt32 } as {[k: number]: DataTypeCtor})[this.algorithm.size];
+    if (!Type) {
+      throw new Error(`Checksums of ${this.algorithm.size} bytes are not supported`);
+    }
+    this.Type = Type;
+  }
+
+  public execute(buffer: PosBuffer, readerState: ReaderState): any {
+    buffer.pad();
+    const [from, to] = this.range(buffer, readerState);
+    const value = buffer.read(this.Type, { mode: this.checksumOptions.mode });
+    const expected = this.compute(buffer.buffer, 0, from, to);
+    const flag = this.checksumOptions.flag;
+
+    if (value !== expected && !flag) {
+      throw new Error(`Expected checksum ${this._name} to be ${hex(expected)} but was ${hex(value as number)}`);
+    }
+
+    return flag ? { [this._name]: value, [flag]: value === expected } : { [this._name]: value };
+  }
+
+  public write(buffer: PosBuffer, readerState: ReaderState): void {
+    buffer.pad();
+    const windowStart = buffer.windowStart;
+    const [from, to] = this.range(buffer, readerState);
+
+    const options = { mode: this.checksumOptions.mode };
+    const field = buffer.recordField(this._name, { type: this.Type, options, bytes: buffer.write(this.Type, 0, options) });
+
+    buffer.defer(() => buffer.rewrite(field, this.compute(buffer.buffer, windowStart, from, to)));
+  }
+
+  private range(buffer: PosBuffer, readerState: ReaderState): [number, number] {
+    const { from = 0, to = buffer.offset.bytes - buffer.windowStart } = this.checksumOptions;
+    const combinedState = scope(readerState);
+
+    return [
+      typeof from === 'function' ? from(combinedState) : from,
+      typeof to === 'function' ? to(combinedState) : to
+    ];
+  }
+
+  private compute(bytes: Buffer, windowStart: number, from: number, to: number): number {
+    if (windowStart + to > bytes.length) {
+      throw new Error(`Checksum ${this._name} covers bytes up to ${to} but there are only ${bytes.length - windowStart}`);
+    }
+    return this.algorithm.compute(bytes.slice(windowStart + from, windowStart + to));
+  }
+}
+
+function hex(value: number): string {
+  return `0x${value.toString(16).toUpperCase()}`;
+}
 
 // ======= NULL INSTRUCTIONS ==============
 
@@ -258,6 +506,34 @@ export class SkipInstruction extends NullInstruction {
   }
 }
 // ======
+export class SeekInstruction extends NullInstruction {
+
+  constructor(private offset: number | ((r: any) => number), private relative: boolean, private fill?: number) {
+    super();
+  }
+
+  public execute(buffer: PosBuffer, readerState: ReaderState): void {
+    const offset = (typeof this.offset === 'function') ? this.offset(scope(readerState)) : this.offset;
+
+    if (this.relative) {
+      buffer.seekRelative(offset, this.fill);
+    } else {
+      buffer.seek(offset, this.fill);
+    }
+  }
+}
+// ======
+export class AlignInstruction extends NullInstruction {
+
+  constructor(private bytes: number, private fill?: number) {
+    super();
+  }
+
+  public execute(buffer: PosBuffer, readerState: ReaderState): void {
+    buffer.align(this.bytes, this.fill);
+  }
+}
+// ======
 export class EndiannessInstruction extends NullInstruction {
   constructor(public mode: Mode) {
     super();
@@ -283,4 +559,69 @@ export class TapInstruction extends NullInstruction {
   public execute(buffer: PosBuffer, readerState: ReaderState): void {
     this.callback(buffer, readerState);
   }
-}
\ No newline at end of file
+}
+
+// ======= SWITCH CASES ==============
+
+function matches(matcher: CaseMatcher, value: Primitive): boolean {
+  if (typeof matcher === 'function') {
+    return matcher(value);
+  } else if (Array.isArray(matcher)) {
+    return matcher.some((m) => m === value);
+  } else if (typeof matcher === 'object') {
+    return (typeof value === 'number' || typeof value === 'bigint') && (matcher.min == null || value >= matcher.min) && (matcher.max == null || value <= matcher.max);
+  }
+  return matcher === value;
+}
+
+// ======= WINDOWS ==============
+
+function resolveSize(options: WindowOptions, readerState: ReaderState): number | undefined {
+  return typeof options.size === 'function' ? options.size(scope(readerState)) : options.size;
+}
+
+function readWindow<T>(buffer: PosBuffer, size: number | undefined, read: (window: PosBuffer) => T): [T, Buffer | undefined] {
+  if (size == null) return [read(buffer), undefined];
+
+  const window = buffer.window(size);
+  const value = read(window);
+  window.pad();
+  buffer.seekRelative(size);
+
+  return [value, window.buffer.slice(window.offset.bytes)];
+}
+
+function writeWindow(buffer: PosBuffer, size: number | undefined, fill: number | undefined, write: () => void): void {
+  if (size == null) return write();
+
+  buffer.pad();
+  const start = buffer.offset.bytes;
+  buffer.withinWindow(write);
+  buffer.pad();
+
+  const written = buffer.offset.bytes - start;
+  if (written > size) {
+    throw new Error(`Wrote ${written} bytes but the size is ${size}`);
+  }
+  buffer.seekRelative(size - written, fill);
+}
+
+function readSubSpec(buffer: PosBuffer, readerState: ReaderState, specState: ReaderState, spec: Spec, options: SubSpecOptions): any {
+  const [value, remainder] = readWindow(buffer, resolveSize(options, readerState), (window) => spec.read(window, specState));
+
+  if (options.remainder) {
+    value[options.remainder] = remainder;
+  }
+  return value;
+}
+
+function writeSubSpec(buffer: PosBuffer, readerState: ReaderState, data: any, specScope: ParentScope, spec: Spec, options: SubSpecOptions): void {
+  writeWindow(buffer, resolveSize(options, readerState), options.fill, () => {
+    spec.write(data, buffer, specScope);
+
+    const remainder = options.remainder && data?.[options.remainder];
+    if (remainder) {
+      buffer.write(Bytes, remainder);
+    }
+  });
+}
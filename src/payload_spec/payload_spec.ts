@@ -1,8 +1,11 @@
-import { Instruction, Primitive, Value, Literal, Calculation, SkipInstruction, IfInstruction, LookupInstruction, PadInstruction, EndiannessInstruction, ValueProducer, Predicate, ValueProvider, LoopInstruction, NamedValueProducer, TapInstruction, IncludeInstruction, GroupInstruction } from './instructions';
-import { PosBuffer, DataTypeCtor, Encoding, Mode, NumericTypeCtor } from '../pos_buffer/pos_buffer';
+import { Instruction, Primitive, Value, Literal, Calculation, SkipInstruction, IfInstruction, LookupInstruction, PadInstruction, EndiannessInstruction, ValueProducer, Predicate, ValueProvider, LoopInstruction, NamedValueProducer, TapInstruction, IncludeInstruction, GroupInstruction, SeekInstruction, AlignInstruction, PointerInstruction, ChecksumInstruction, LoopRepeat, SwitchCase } from './instructions';
+import { PosBuffer, DataTypeCtor, Encoding, Mode, Alignment, Terminator, NumericTypeCtor, WrittenField } from '../pos_buffer/pos_buffer';
+import { ChecksumAlgorithm } from '../pos_buffer/checksums';
 
 export interface FieldOptions {
-  terminator?: string | number;
+  terminator?: Terminator;
+  padding?: string | number;
+  align?: Alignment;
   dp?: number;
   then?: (v: any) => Primitive;
   before?: (v: any) => Primitive;
@@ -12,16 +15,77 @@ export interface FieldOptions {
   value?: Primitive;
   store?: boolean;
   mode?: Mode;
+  asNumber?: boolean;
+  asString?: boolean;
+  digits?: number;
+  asNanos?: boolean;
+  leapSeconds?: number;
+  prefix?: DataTypeCtor;
+  length?: number | ((r: any) => number);
+  sizeOf?: string;
+  countOf?: string;
 }
 
-export type ReaderState = { result: any, storedVars: any };
+export interface LazyOptions {
+  maxDepth?: number;
+}
+
+export interface SeekOptions {
+  fill?: number;
+}
+
+export interface PointerOptions {
+  base?: number | ((r: any) => number);
+}
+
+export interface ChecksumOptions {
+  from?: number | ((r: any) => number);
+  to?: number | ((r: any) => number);
+  mode?: Mode;
+  flag?: string;
+}
+
+export interface WindowOptions {
+  size?: number | ((r: any) => number);
+  fill?: number;
+}
+
+export type Params = {[k: string]: any} | ((r: any) => {[k: string]: any});
+
+export interface ParamOptions {
+  params?: Params;
+}
+
+export interface LoopOptions extends WindowOptions, ParamOptions {}
+
+export interface SubSpecOptions extends WindowOptions, ParamOptions {
+  remainder?: string;
+}
+
+export type ReaderState = { result: any, storedVars: any, parent?: ReaderState, index?: number, params?: any };
+
+export interface ParentScope {
+  parent?: ReaderState;
+  index?: number;
+  params?: any;
+}
 
 export class Spec {
 
   private instructions: Instruction<any>[] = [];
+  private parameters: { name: string, defaultValue?: any }[] = [];
 
   constructor(private options: ParsingOptions = { lenient: false, mode: Mode.BE }) {}
 
+  public static lazy(resolve: () => Spec, options?: LazyOptions): Spec {
+    return new LazySpec(resolve, options?.maxDepth ?? 100);
+  }
+
+  public param(name: string, defaultValue?: any): Spec {
+    this.parameters.push({ name, defaultValue });
+    return this;
+  }
+
   public field(name: string, Type: DataTypeCtor | Primitive, options?: FieldOptions): Spec {
     if (typeof Type === 'function') {
       this.instructions.push(new Value(name, Type, options));
@@ -52,14 +116,33 @@ export class Spec {
     return this;
   }
 
-  public if(predicate: Predicate, otherSpec: Spec): Spec {
-    this.instructions.push(new IfInstruction(predicate, otherSpec));
+  public seek(offset: number | ((r: any) => number), options?: SeekOptions): Spec {
+    this.instructions.push(new SeekInstruction(offset, false, options?.fill));
+    return this;
+  }
+
+  public seekRelative(bytes: number | ((r: any) => number), options?: SeekOptions): Spec {
+    this.instructions.push(new SeekInstruction(bytes, true, options?.fill));
+    return this;
+  }
+
+  public align(bytes: number, options?: SeekOptions): Spec {
+    this.instructions.push(new AlignInstruction(bytes, options?.fill));
+    return this;
+  }
+
+  public if(predicate: Predicate, otherSpec: Spec, elseSpec?: Spec | ParamOptions, options?: ParamOptions): Spec {
+    if (elseSpec instanceof Spec) {
+      this.instructions.push(new IfInstruction(predicate, otherSpec, elseSpec, options));
+    } else {
+      this.instructions.push(new IfInstruction(predicate, otherSpec, undefined, elseSpec));
+    }
     return this;
   }
 
   
-  public switch(valueProvider: ValueProvider, valueMap: {[k: string]: Spec}) {
-    this.instructions.push(new LookupInstruction(valueProvider, valueMap));
+  public switch(valueProvider: ValueProvider, valueMap: {[k: string]: Spec} | SwitchCase[], options?: ParamOptions) {
+    this.instructions.push(new LookupInstruction(valueProvider, valueMap, options));
     return this;
   }
 
@@ -73,18 +156,28 @@ export class Spec {
     return this;
   }
 
-  public loop(name: string, repeat: number | ((r: any) => number) | null, loopSpec: Spec) {
-    this.instructions.push(new LoopInstruction(name, repeat, loopSpec));
+  public loop(name: string, repeat: LoopRepeat, loopSpec: Spec, options?: LoopOptions) {
+    this.instructions.push(new LoopInstruction(name, repeat, loopSpec, options));
+    return this;
+  }
+
+  public include(includedSpec: Spec, options?: SubSpecOptions) {
+    this.instructions.push(new IncludeInstruction(includedSpec, options));
+    return this;
+  }
+
+  public group(name: string, includedSpec: Spec, options?: SubSpecOptions) {
+    this.instructions.push(new GroupInstruction(name, includedSpec, options));
     return this;
   }
 
-  public include(includedSpec: Spec) {
-    this.instructions.push(new IncludeInstruction(includedSpec));
+  public pointer(name: string, offset: string | ((r: any) => number), pointedSpec: Spec, options?: PointerOptions) {
+    this.instructions.push(new PointerInstruction(name, offset, pointedSpec, options?.base));
     return this;
   }
 
-  public group(name: string, includedSpec: Spec) {
-    this.instructions.push(new GroupInstruction(name, includedSpec));
+  public checksum(name: string, algorithm: string | ChecksumAlgorithm, options?: ChecksumOptions) {
+    this.instructions.push(new ChecksumInstruction(name, algorithm, options));
     return this;
   }
 
@@ -94,24 +187,68 @@ export class Spec {
   }
 
   // deprecated
-  public exec(data: Buffer | PosBuffer, initialState?: ReaderState): any {
+  public exec(data: Buffer | PosBuffer, initialState?: Partial<ReaderState>): any {
     return this.read(data, initialState);
   }
 
-  public read(data: Buffer | PosBuffer, initialState?: ReaderState): any {
+  public read(data: Buffer | PosBuffer, initialState: Partial<ReaderState> = {}): any {
     const posBuffer = data instanceof PosBuffer ? data : new PosBuffer(data, { endianness: this.options.mode, lenient: this.options.lenient });
 
     const reader = new BufferReader(posBuffer, this.instructions);
   
-    return reader.read(initialState);
+    return reader.read({ result: {}, storedVars: {}, ...initialState, params: this.resolveParams(initialState.params) });
   }
 
-  public write(data: any, initialBuffer?: PosBuffer): Buffer {
+  public write(data: any, initialBuffer?: PosBuffer, parentScope: ParentScope = {}): Buffer {
     const posBuffer = initialBuffer || new PosBuffer([]);
 
     const writer = new BufferWriter(posBuffer, this.instructions);
+    posBuffer.withDeferredWrites(() => writer.write(data, { ...parentScope, params: this.resolveParams(parentScope.params) }));
+
+    return posBuffer.buffer;
+  }
+
+  private resolveParams(supplied: any = {}): any {
+    const params = { ...supplied };
+
+    for (const { name, defaultValue } of this.parameters) {
+      if (params[name] === undefined) {
+        if (defaultValue === undefined) {
+          throw new Error(`Missing parameter ${name}`);
+        }
+        params[name] = defaultValue;
+      }
+    }
+    return params;
+  }
+}
+
+class LazySpec extends Spec {
+  private depth = 0;
+
+  constructor(private resolve: () => Spec, private maxDepth: number) {
+    super();
+  }
+
+  public read(data: Buffer | PosBuffer, initialState?: Partial<ReaderState>): any {
+    return this.nested(() => this.resolve().read(data, initialState));
+  }
 
-    return writer.write(data);
+  public write(data: any, initialBuffer?: PosBuffer, parentScope?: ParentScope): Buffer {
+    return this.nested(() => this.resolve().write(data, initialBuffer, parentScope));
+  }
+
+  private nested<T>(run: () => T): T {
+    if (this.depth >= this.maxDepth) {
+      throw new Error(`Maximum recursion depth of ${this.maxDepth} exceeded`);
+    }
+
+    this.depth++;
+    try {
+      return run();
+    } finally {
+      this.depth--;
+    }
   }
 }
 
@@ -119,7 +256,7 @@ class BufferReader {
   constructor(private posBuffer: PosBuffer, private instructions: Instruction<any>[]) {
   }
   
-  public read(state: ReaderState = { result: {}, storedVars: {} }): any {
+  public read(state: ReaderState): any {
     const result: {[k:string]: any} = {};
 
     for(const instruction of this.instructions) {
@@ -148,14 +285,51 @@ class BufferReader {
 class BufferWriter {
   constructor(private posBuffer: PosBuffer, private instructions: Instruction<any>[]) { }
   
-  public write(data: any): Buffer {
+  public write(data: any, parentScope: ParentScope = {}): Buffer {
+    const state: ReaderState = { result: data ?? {}, storedVars: {}, ...parentScope };
+    const sizes: {[name: string]: number} = {};
+    const sizeFields: {[name: string]: { name: string, field: WrittenField }[]} = {};
+    const fillSize = (name: string, field: WrittenField, size: number) => {
+      this.posBuffer.rewrite(field, size);
+      state.storedVars[name] = size;
+    };
+
     for(const instruction of this.instructions) {
-      instruction.write(this.posBuffer, { result: data, storedVars: {} });
+      const start = this.bitOffset();
+      instruction.write(this.posBuffer, state);
+
+      if (instruction instanceof NamedValueProducer) {
+        const sizeOf = instruction.options?.sizeOf;
+        const field = this.posBuffer.writtenField(instruction.name);
+
+        if (sizeOf && field) {
+          if (sizes[sizeOf] != null) {
+            fillSize(instruction.name, field, sizes[sizeOf]);
+          } else {
+            sizeFields[sizeOf] = [...(sizeFields[sizeOf] ?? []), { name: instruction.name, field }];
+          }
+        }
+
+        const size = Math.ceil((this.bitOffset() - start) / 8);
+        sizes[instruction.name] = size;
+        (sizeFields[instruction.name] ?? []).forEach((sizeField) => fillSize(sizeField.name, sizeField.field, size));
+        delete sizeFields[instruction.name];
+      }
+    }
+
+    const missing = Object.keys(sizeFields)[0];
+    if (missing) {
+      throw new Error(`Cannot find the field ${missing} to write its size`);
     }
 
     const buffer = this.posBuffer.buffer;
     return buffer;
   }
+
+  private bitOffset(): number {
+    const { bytes, bits } = this.posBuffer.offset;
+    return bytes * 8 + bits;
+  }
 }
 
 export interface ParsingOptions {
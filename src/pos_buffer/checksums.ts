@@ -0,0 +1,129 @@
+export interface ChecksumAlgorithm {
+  size: number;
+  compute(bytes: Buffer): number;
+}
+
+const algorithms: { [name: string]: ChecksumAlgorithm } = {};
+
+export function registerChecksum(name: string, algorithm: ChecksumAlgorithm): void {
+  algorithms[name.toLowerCase()] = algorithm;
+}
+
+export function getChecksum(algorithm: string | ChecksumAlgorithm): ChecksumAlgorithm {
+  if (typeof algorithm !== 'string') return algorithm;
+
+  const found = algorithms[algorithm.toLowerCase()];
+  if (found) return found;
+
+  throw new Error(`Unknown checksum algorithm ${algorithm}`);
+}
+
+interface CrcParameters {
+  width: number;
+  poly: number;
+  init: number;
+  reflect: boolean;
+  xorOut: number;
+}
+
+function reflectBits(value: number, width: number): number {
+  let reflected = 0;
+  for (let i = 0; i < width; i++) {
+    reflected = (reflected << 1) | ((value >>> i) & 1);
+  }
+  return reflected >>> 0;
+}
+
+function crc({ width, poly, init, reflect, xorOut }: CrcParameters): ChecksumAlgorithm {
+  const mask = width === 32 ? 0xFFFFFFFF : (1 << width) - 1;
+  const topBit = Math.pow(2, width - 1);
+  const reflectedPoly = reflectBits(poly, width);
+
+  return {
+    size: width / 8,
+    compute: (bytes) => {
+      let crc = init;
+
+      for (const byte of bytes) {
+        if (reflect) {
+          crc ^= byte;
+          for (let bit = 0; bit < 8; bit++) {
+            crc = (crc & 1) ? (crc >>> 1) ^ reflectedPoly : crc >>> 1;
+          }
+        } else {
+          crc ^= byte << (width - 8);
+          for (let bit = 0; bit < 8; bit++) {
+            crc = (crc & topBit) ? (crc << 1) ^ poly : crc << 1;
+            crc = (crc & mask) >>> 0;
+          }
+        }
+      }
+
+      return ((crc ^ xorOut) & mask) >>> 0;
+    }
+  };
+}
+
+function adler32(): ChecksumAlgorithm {
+  return {
+    size: 4,
+    compute: (bytes) => {
+      let a = 1;
+      let b = 0;
+      for (const byte of bytes) {
+        a = (a + byte) % 65521;
+        b = (b + a) % 65521;
+      }
+      return ((b << 16) | a) >>> 0;
+    }
+  };
+}
+
+function fletcher(width: 16 | 32): ChecksumAlgorithm {
+  const wordSize = width / 16;
+  const modulus = width === 16 ? 255 : 65535;
+
+  return {
+    size: width / 8,
+    compute: (bytes) => {
+      let sum1 = 0;
+      let sum2 = 0;
+      for (let i = 0; i < bytes.length; i += wordSize) {
+        const word = wordSize === 1 ? bytes[i] : bytes[i] | ((bytes[i + 1] ?? 0) << 8);
+        sum1 = (sum1 + word) % modulus;
+        sum2 = (sum2 + sum1) % modulus;
+      }
+      return (sum2 * (modulus + 1) + sum1) >>> 0;
+    }
+  };
+}
+
+function xor(): ChecksumAlgorithm {
+  return {
+    size: 1,
+    compute: (bytes) => bytes.reduce((acc, byte) => acc ^ byte, 0)
+  };
+}
+
+function sum8(): ChecksumAlgorithm {
+  return {
+    size: 1,
+    compute: (bytes) => bytes.reduce((acc, byte) => (acc + byte) & 0xFF, 0)
+  };
+}
+
+const crc16ccitt = crc({ width: 16, poly: 0x1021, init: 0xFFFF, reflect: false, xorOut: 0 });
+const crc32 = crc({ width: 32, poly: 0x04C11DB7, init: 0xFFFFFFFF, reflect: true, xorOut: 0xFFFFFFFF });
+
+registerChecksum('crc8', crc({ width: 8, poly: 0x07, init: 0, reflect: false, xorOut: 0 }));
+registerChecksum('crc16-ccitt', crc16ccitt);
+registerChecksum('crc16-ccitt-false', crc16ccitt);
+registerChecksum('crc16-modbus', crc({ width: 16, poly: 0x8005, init: 0xFFFF, reflect: true, xorOut: 0 }));
+registerChecksum('crc16-xmodem', crc({ width: 16, poly: 0x1021, init: 0, reflect: false, xorOut: 0 }));
+registerChecksum('crc32', crc32);
+registerChecksum('crc32c', crc({ width: 32, poly: 0x1EDC6F41, init: 0xFFFFFFFF, reflect: true, xorOut: 0xFFFFFFFF }));
+registerChecksum('adler32', adler32());
+registerChecksum('fletcher16', fletcher(16));
+registerChecksum('fletcher32', fletcher(32));
+registerChecksum('xor', xor());
+registerChecksum('sum8', sum8());
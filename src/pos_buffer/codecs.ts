@@ -0,0 +1,156 @@
+import { Encoding } from './pos_buffer';
+
+export interface Codec {
+  unitSize: number;
+  decode(bytes: Buffer): string;
+  encode(value: string): Buffer;
+}
+
+const codecs: { [name: string]: Codec } = {};
+
+export function registerCodec(name: string, codec: Codec): void {
+  codecs[name.toLowerCase()] = codec;
+}
+
+export function getCodec(encoding: Encoding): Codec {
+  const codec = codecs[encoding.toLowerCase()];
+  if (codec) return codec;
+
+  if (Buffer.isEncoding(encoding)) return bufferCodec(encoding);
+
+  throw new Error(`Unknown encoding ${encoding}`);
+}
+
+function bufferCodec(encoding: BufferEncoding): Codec {
+  const wide = encoding === 'utf16le' || encoding === 'ucs2' || encoding === 'ucs-2';
+  return {
+    unitSize: wide ? 2 : 1,
+    decode: (bytes) => bytes.toString(encoding),
+    encode: (value) => Buffer.from(value, encoding)
+  };
+}
+
+function utf16BE(): Codec {
+  return {
+    unitSize: 2,
+    decode: (bytes) => Buffer.from(bytes.slice(0, bytes.length - (bytes.length % 2))).swap16().toString('utf16le'),
+    encode: (value) => Buffer.from(value, 'utf16le').swap16()
+  };
+}
+
+function utf32(littleEndian: boolean): Codec {
+  return {
+    unitSize: 4,
+    decode: (bytes) => {
+      const chars: string[] = [];
+      for (let i = 0; i + 4 <= bytes.length; i += 4) {
+        const codePoint = littleEndian ? bytes.readUInt32LE(i) : bytes.readUInt32BE(i);
+        if (codePoint > 0x10FFFF) {
+          throw new Error(`Invalid code point 0x${codePoint.toString(16).toUpperCase()} at byte ${i}`);
+        }
+        chars.push(String.fromCodePoint(codePoint));
+      }
+      return chars.join('');
+    },
+    encode: (value) => {
+      const codePoints = Array.from(value, (char) => char.codePointAt(0)!);
+      const bytes = Buffer.alloc(codePoints.length * 4);
+      codePoints.forEach((codePoint, i) => {
+        if (littleEndian) {
+          bytes.writeUInt32LE(codePoint, i * 4);
+        } else {
+          bytes.writeUInt32BE(codePoint, i * 4);
+        }
+      });
+      return bytes;
+    }
+  };
+}
+
+function singleByte(name: string, table: string): Codec {
+  let reverse: Map<string, number> | undefined;
+
+  return {
+    unitSize: 1,
+    decode: (bytes) => Array.from(bytes, (b) => table[b]).join(''),
+    encode: (value) => {
+      if (!reverse) {
+        reverse = new Map(Array.from(table, (char, b): [string, number] => [char, b]));
+      }
+      return Buffer.from(Array.from(value, (char) => {
+        const b = reverse!.get(char);
+        if (b === undefined) throw new Error(`Character '${char}' cannot be encoded as ${name}`);
+
+        return b;
+      }));
+    }
+  };
+}
+
+function range(from: number, to: number): string {
+  let chars = '';
+  for (let code = from; code < to; code++) {
+    chars += String.fromCharCode(code);
+  }
+  return chars;
+}
+
+// bytes 0x80-0x9F are the only ones that differ from latin1, unassigned bytes map to the matching C1 control
+const CP1252 = range(0x00, 0x80) +
+  '\u20AC\u0081\u201A\u0192\u201E\u2026\u2020\u2021\u02C6\u2030\u0160\u2039\u0152\u008D\u017D\u008F' +
+  '\u0090\u2018\u2019\u201C\u201D\u2022\u2013\u2014\u02DC\u2122\u0161\u203A\u0153\u009D\u017E\u0178' +
+  range(0xA0, 0x100);
+
+// EBCDIC US/Canada
+const CP037 =
+  '\u0000\u0001\u0002\u0003\u009C\u0009\u0086\u007F\u0097\u008D\u008E\u000B\u000C\u000D\u000E\u000F' +
+  '\u0010\u0011\u0012\u0013\u009D\u0085\u0008\u0087\u0018\u0019\u0092\u008F\u001C\u001D\u001E\u001F' +
+  '\u0080\u0081\u0082\u0083\u0084\u000A\u0017\u001B\u0088\u0089\u008A\u008B\u008C\u0005\u0006\u0007' +
+  '\u0090\u0091\u0016\u0093\u0094\u0095\u0096\u0004\u0098\u0099\u009A\u009B\u0014\u0015\u009E\u001A' +
+  ' \u00A0\u00E2\u00E4\u00E0\u00E1\u00E3\u00E5\u00E7\u00F1\u00A2.<(+|' +
+  '&\u00E9\u00EA\u00EB\u00E8\u00ED\u00EE\u00EF\u00EC\u00DF!$*);\u00AC' +
+  '-/\u00C2\u00C4\u00C0\u00C1\u00C3\u00C5\u00C7\u00D1\u00A6,%_>?' +
+  '\u00F8\u00C9\u00CA\u00CB\u00C8\u00CD\u00CE\u00CF\u00CC`:#@\u0027="' +
+  '\u00D8abcdefghi\u00AB\u00BB\u00F0\u00FD\u00FE\u00B1' +
+  '\u00B0jklmnopqr\u00AA\u00BA\u00E6\u00B8\u00C6\u00A4' +
+  '\u00B5~stuvwxyz\u00A1\u00BF\u00D0\u00DD\u00DE\u00AE' +
+  '^\u00A3\u00A5\u00B7\u00A9\u00A7\u00B6\u00BC\u00BD\u00BE[]\u00AF\u00A8\u00B4\u00D7' +
+  '{ABCDEFGHI\u00AD\u00F4\u00F6\u00F2\u00F3\u00F5' +
+  '}JKLMNOPQR\u00B9\u00FB\u00FC\u00F9\u00FA\u00FF' +
+  '\u005C\u00F7STUVWXYZ\u00B2\u00D4\u00D6\u00D2\u00D3\u00D5' +
+  '0123456789\u00B3\u00DB\u00DC\u00D9\u00DA\u009F';
+
+// EBCDIC International
+const CP500 =
+  '\u0000\u0001\u0002\u0003\u009C\u0009\u0086\u007F\u0097\u008D\u008E\u000B\u000C\u000D\u000E\u000F' +
+  '\u0010\u0011\u0012\u0013\u009D\u0085\u0008\u0087\u0018\u0019\u0092\u008F\u001C\u001D\u001E\u001F' +
+  '\u0080\u0081\u0082\u0083\u0084\u000A\u0017\u001B\u0088\u0089\u008A\u008B\u008C\u0005\u0006\u0007' +
+  '\u0090\u0091\u0016\u0093\u0094\u0095\u0096\u0004\u0098\u0099\u009A\u009B\u0014\u0015\u009E\u001A' +
+  ' \u00A0\u00E2\u00E4\u00E0\u00E1\u00E3\u00E5\u00E7\u00F1[.<(+!' +
+  '&\u00E9\u00EA\u00EB\u00E8\u00ED\u00EE\u00EF\u00EC\u00DF]$*);^' +
+  '-/\u00C2\u00C4\u00C0\u00C1\u00C3\u00C5\u00C7\u00D1\u00A6,%_>?' +
+  '\u00F8\u00C9\u00CA\u00CB\u00C8\u00CD\u00CE\u00CF\u00CC`:#@\u0027="' +
+  '\u00D8abcdefghi\u00AB\u00BB\u00F0\u00FD\u00FE\u00B1' +
+  '\u00B0jklmnopqr\u00AA\u00BA\u00E6\u00B8\u00C6\u00A4' +
+  '\u00B5~stuvwxyz\u00A1\u00BF\u00D0\u00DD\u00DE\u00AE' +
+  '\u00A2\u00A3\u00A5\u00B7\u00A9\u00A7\u00B6\u00BC\u00BD\u00BE\u00AC|\u00AF\u00A8\u00B4\u00D7' +
+  '{ABCDEFGHI\u00AD\u00F4\u00F6\u00F2\u00F3\u00F5' +
+  '}JKLMNOPQR\u00B9\u00FB\u00FC\u00F9\u00FA\u00FF' +
+  '\u005C\u00F7STUVWXYZ\u00B2\u00D4\u00D6\u00D2\u00D3\u00D5' +
+  '0123456789\u00B3\u00DB\u00DC\u00D9\u00DA\u009F';
+
+const utf16be = utf16BE();
+const utf32le = utf32(true);
+const utf32be = utf32(false);
+const cp1252 = singleByte('cp1252', CP1252);
+
+registerCodec('utf16be', utf16be);
+registerCodec('utf-16be', utf16be);
+registerCodec('utf32le', utf32le);
+registerCodec('utf-32le', utf32le);
+registerCodec('utf32be', utf32be);
+registerCodec('utf-32be', utf32be);
+registerCodec('cp1252', cp1252);
+registerCodec('windows-1252', cp1252);
+registerCodec('cp037', singleByte('cp037', CP037));
+registerCodec('cp500', singleByte('cp500', CP500));
@@ -1,5 +1,6 @@
 import { DataType, NumericDataType } from '..';
 import { Primitive } from '../payload_spec/instructions';
+import { getCodec } from './codecs';
 
 export type DataTypeCtor = new (options?: TypeOptions) => DataType;
 export type NumericTypeCtor = new (options?: TypeOptions) => NumericDataType;
@@ -11,6 +12,11 @@ export class PosBuffer {
 
   private writeBuffers: [Buffer, number][] = [];
   private writeBitBuffer: number = 0;
+  private writtenFields: { [name: string]: WrittenField } = {};
+  private deferredWrites: (() => void)[] = [];
+  private writeDepth = 0;
+  private _windowStart = 0;
+  private parent: PosBuffer | undefined;
 
   constructor(bytes: Buffer | number[], private options: BufferOptions = {}) {
     this._buffer = Buffer.from(bytes);
@@ -19,7 +25,8 @@ export class PosBuffer {
   }
 
   public read(dataType: DataTypeCtor, options?: TypeOptions): Primitive | undefined {
-    if (this.offsetBytes > this._buffer.length - 1) {
+    const readsNothing = options?.size === 0 || options?.length === 0;
+    if (this.offsetBytes > this._buffer.length - 1 && !readsNothing) {
       if (this.options.lenient) {
         return undefined;
       } else {
@@ -53,6 +60,52 @@ export class PosBuffer {
     return newBuffer;
   }
 
+  public recordField(name: string, field: Omit<WrittenField, 'mode'>): WrittenField {
+    const writtenField = { ...field, mode: field.options?.mode ?? this.mode };
+    this.writtenFields[name] = writtenField;
+    return writtenField;
+  }
+
+  public writtenField(name: string): WrittenField | undefined {
+    return this.writtenFields[name];
+  }
+
+  public rewrite(field: WrittenField, value: Primitive): void {
+    const bytes = new field.type({ ...field.options, mode: field.mode }).write(this, value);
+    if (bytes.length !== field.bytes.length || bytes.length === 0) {
+      throw new Error('Only fields of a whole number of bytes can be rewritten');
+    }
+    bytes.copy(field.bytes);
+  }
+
+  public defer(write: () => void): void {
+    this.deferredWrites.push(write);
+  }
+
+  public withDeferredWrites(write: () => void): void {
+    this.writeDepth++;
+    try {
+      write();
+    } finally {
+      this.writeDepth--;
+    }
+
+    if (this.writeDepth === 0) {
+      this.flushDeferred();
+    }
+  }
+
+  public flushDeferred(): void {
+    this.writeDepth++;
+    try {
+      while (this.deferredWrites.length > 0) {
+        this.deferredWrites.shift()!();
+      }
+    } finally {
+      this.writeDepth--;
+    }
+  }
+
   public readMany(dataTypes: { type: DataTypeCtor, options?: TypeOptions }[]): (Primitive | undefined)[] {
     return dataTypes.map((dt) => {
       return this.read(dt.type, dt.options);
@@ -71,9 +124,44 @@ export class PosBuffer {
     return this;
   }
 
+  public seek(offset: number, fill: number = 0x00): PosBuffer {
+    if (this._buffer.length != 0) {
+      if (offset < 0 || offset > this._buffer.length) {
+        throw new Error('Attempt to seek outside the buffer');
+      }
+      this.offset = { bytes: offset, bits: 0 };
+      return this;
+    }
+
+    this.pad();
+    const written = this.offsetBytes - this._windowStart;
+    if (offset < written) {
+      throw new Error(`Cannot seek back to ${offset} when writing, as ${written} bytes have already been written`);
+    }
+    const gap = offset - written;
+    this.updateOffset(gap * 8);
+    if (gap > 0) {
+      this.writeBuffers.push([Buffer.alloc(gap, fill), this.offsetBytes]);
+    }
+    return this;
+  }
+
+  public seekRelative(bytes: number, fill: number = 0x00): PosBuffer {
+    return this.seek(this.offsetBytes - this._windowStart + bytes, fill);
+  }
+
+  public align(bytes: number, fill: number = 0x00): PosBuffer {
+    if (!Number.isInteger(bytes) || bytes < 1) {
+      throw new Error(`Alignment must be a positive whole number of bytes but was ${bytes}`);
+    }
+    this.pad();
+    const written = this.offsetBytes - this._windowStart;
+    return this.seek(written + (bytes - written % bytes) % bytes, fill);
+  }
+
   public peek(instruction: new (options?: any) => DataType, byteOffset: number, options?: TypeOptions): Primitive {
     const dataInstruction = new instruction(options);
-    if (byteOffset < 0 || (byteOffset + this.addOffset(dataInstruction.size).bytes) > this._buffer.length ) {
+    if (byteOffset < 0 || (byteOffset * 8 + dataInstruction.size) > this._buffer.length * 8) {
       throw new Error('Attempt to peek outside of the buffer');
     }
 
@@ -94,12 +182,41 @@ export class PosBuffer {
     return this;
   }
 
+  public window(bytes: number): PosBuffer {
+    this.pad();
+    if (bytes < 0 || this.offsetBytes + bytes > this._buffer.length) {
+      throw new Error('Attempt to read outside of the buffer');
+    }
+    const window = new PosBuffer(this._buffer.slice(this.offsetBytes, this.offsetBytes + bytes), { endianness: this.mode, lenient: this.options.lenient });
+    window.parent = this;
+    return window;
+  }
+
+  public withinWindow(write: () => void): void {
+    this.pad();
+    const outerStart = this._windowStart;
+    this._windowStart = this.offsetBytes;
+    try {
+      write();
+    } finally {
+      this._windowStart = outerStart;
+    }
+  }
+
+  get windowStart(): number {
+    return this._windowStart;
+  }
+
+  get root(): PosBuffer {
+    return this.parent ? this.parent.root : this;
+  }
+
   public slice(start: number, end?: number): PosBuffer {
     return new PosBuffer(this._buffer.slice(start, end));
   }
 
   public toString(encoding?: Encoding, start?: number, end?: number): string {
-    return this.buffer.toString(encoding, start, end);
+    return getCodec(encoding || 'utf8').decode(this.buffer.slice(start, end));
   }
 
   get mode(): Mode {
@@ -166,7 +283,8 @@ export class PosBuffer {
   }
 }
 
-export type Encoding = 'ascii' | 'utf8' | 'utf-8' | 'utf16le' | 'ucs2' | 'ucs-2' | 'base64' | 'binary' | 'hex' | 'latin1';
+export type Encoding = 'ascii' | 'utf8' | 'utf-8' | 'utf16le' | 'ucs2' | 'ucs-2' | 'base64' | 'binary' | 'hex' | 'latin1'
+  | 'utf16be' | 'utf32le' | 'utf32be' | 'cp1252' | 'cp037' | 'cp500' | (string & {});
 
 export interface BufferOptions {
   endianness?: Mode;
@@ -177,20 +295,45 @@ export interface BufferOptions {
 export interface TypeOptions {
   size?: number;
   encoding?: Encoding;
-  terminator?: string | number;
+  terminator?: Terminator;
+  padding?: string | number;
+  align?: Alignment;
   dp?: number;
   mode?: Mode;
+  asNumber?: boolean;
+  asString?: boolean;
+  digits?: number;
+  asNanos?: boolean;
+  leapSeconds?: number;
+  prefix?: DataTypeCtor;
+  length?: number;
   then?: (v: any) => Primitive;
   before?: (v: any) => Primitive;
 }
 
 export interface TypeWriteOptions {
   encoding?: Encoding,
-  terminator?: string | number;
+  terminator?: Terminator;
   size?: number;
+  padding?: string | number;
+  align?: Alignment;
+  prefix?: DataTypeCtor;
+  length?: number;
+  mode?: Mode;
   before?: (v: any) => Primitive;
 }
 
+export type Terminator = string | number | number[] | Buffer;
+
+export type Alignment = 'left' | 'right';
+
+export interface WrittenField {
+  type: DataTypeCtor;
+  options?: TypeWriteOptions;
+  mode: Mode;
+  bytes: Buffer;
+}
+
 export enum Mode {
   BE,
   LE
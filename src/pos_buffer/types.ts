@@ -1,5 +1,6 @@
 import { Primitive } from '../payload_spec/instructions';
-import { PosBuffer, Encoding, Mode, TypeOptions } from './pos_buffer';
+import { PosBuffer, Alignment, Encoding, Terminator, Mode, TypeOptions, DataTypeCtor, NumericTypeCtor } from './pos_buffer';
+import { Codec, getCodec } from './codecs';
 
 export abstract class DataType {
 
@@ -11,16 +12,22 @@ export abstract class DataType {
   public write(buffer: PosBuffer, value: Primitive): Buffer {
     return Buffer.from([]);
   }
+
+  protected assertAtByteBoundary(offset: { bytes: number, bits: number}): void {
+    if (offset.bits !== 0) {
+      throw new Error(`Buffer position is not at a byte boundary (bit offset ${offset.bits}). Do you need to use pad()?`)
+    }
+  }
 }
 
 export abstract class NumericDataType extends DataType {
   abstract be: (offset: number) => any;
   abstract le: (offset: number) => any;
   abstract bitSize: () => number;
-  abstract writeBe: (value: number, offset: number) => number;
-  abstract writeLe: (value: number, offset: number) => number;
+  abstract writeBe: (value: any, offset: number) => number;
+  abstract writeLe: (value: any, offset: number) => number;
 
-  public execute(buffer: PosBuffer): number {
+  public execute(buffer: PosBuffer): number | bigint {
     this.assertAtByteBoundary(buffer.offset);
     const mode = this.options?.mode ?? buffer.mode;
     const valueFunction = (mode === Mode.BE) ? this.be : this.le;
@@ -29,21 +36,16 @@ export abstract class NumericDataType extends DataType {
     return value;
   }
 
-  public write(buffer: PosBuffer, value: number): Buffer {
+  public write(buffer: PosBuffer, value: number | bigint): Buffer {
     this.assertAtByteBoundary(buffer.offset);
     const tempBuffer = Buffer.alloc(this.bitSize() / 8);
-    const writeFunction = (buffer.mode === Mode.BE) ? this.writeBe : this.writeLe;
+    const mode = this.options?.mode ?? buffer.mode;
+    const writeFunction = (mode === Mode.BE) ? this.writeBe : this.writeLe;
     const boundFunction = writeFunction.bind(tempBuffer);
     boundFunction(value, 0);
     return tempBuffer;
   }
 
-  private assertAtByteBoundary(offset: { bytes: number, bits: number}): void {
-    if (offset.bits !== 0) {
-      throw new Error(`Buffer position is not at a byte boundary (bit offset ${offset.bits}). Do you need to use pad()?`)
-    }
-  }
-
   get size() {
     return this.bitSize();
   }
@@ -113,25 +115,204 @@ export class Double extends NumericDataType {
   public bitSize = () => 64;
 }
 
+export class Float16 extends NumericDataType {
+  public be = function(this: Buffer, offset: number) { return decodeMinifloat(this.readUInt16BE(offset), 5, 10) };
+  public le = function(this: Buffer, offset: number) { return decodeMinifloat(this.readUInt16LE(offset), 5, 10) };
+  public writeBe = function(this: Buffer, value: number, offset: number) { return this.writeUInt16BE(encodeMinifloat(value, 5, 10), offset) };
+  public writeLe = function(this: Buffer, value: number, offset: number) { return this.writeUInt16LE(encodeMinifloat(value, 5, 10), offset) };
+  public bitSize = () => 16;
+}
+
+export class BFloat16 extends NumericDataType {
+  public be = function(this: Buffer, offset: number) { return decodeMinifloat(this.readUInt16BE(offset), 8, 7) };
+  public le = function(this: Buffer, offset: number) { return decodeMinifloat(this.readUInt16LE(offset), 8, 7) };
+  public writeBe = function(this: Buffer, value: number, offset: number) { return this.writeUInt16BE(encodeMinifloat(value, 8, 7), offset) };
+  public writeLe = function(this: Buffer, value: number, offset: number) { return this.writeUInt16LE(encodeMinifloat(value, 8, 7), offset) };
+  public bitSize = () => 16;
+}
+
+export type FixedPointCtor = NumericTypeCtor & { integerBits: number, fractionalBits: number, signed: boolean };
+
+const fixedPointTypes: { [key: string]: FixedPointCtor } = {};
+
+export function Fixed(integerBits: number, fractionalBits: number, signed: boolean = true): FixedPointCtor {
+  const width = integerBits + fractionalBits;
+  const bytes = width / 8;
+  if (!Number.isInteger(integerBits) || !Number.isInteger(fractionalBits) || integerBits < 0 || fractionalBits < 0 || !Number.isInteger(bytes) || bytes < 1 || bytes > 6) {
+    throw new Error(`Fixed point width must be a whole number of bytes up to 48 bits but was ${width}`);
+  }
+
+  const name = `${signed ? 'Q' : 'UQ'}${integerBits}.${fractionalBits}`;
+  if (!fixedPointTypes[name]) {
+    const scale = 2 ** fractionalBits;
+    const min = signed ? -(2 ** (width - 1)) : 0;
+    const max = signed ? (2 ** (width - 1)) - 1 : (2 ** width) - 1;
+
+    const toRaw = (value: number): number => {
+      const raw = roundHalfToEven(value * scale);
+      if (!(raw >= min && raw <= max)) {
+        throw new Error(`Value ${value} is out of range for ${name}`);
+      }
+      return raw;
+    }
+
+    fixedPointTypes[name] = class extends NumericDataType {
+      static integerBits = integerBits;
+      static fractionalBits = fractionalBits;
+      static signed = signed;
+
+      public be = function(this: Buffer, offset: number) { return (signed ? this.readIntBE(offset, bytes) : this.readUIntBE(offset, bytes)) / scale };
+      public le = function(this: Buffer, offset: number) { return (signed ? this.readIntLE(offset, bytes) : this.readUIntLE(offset, bytes)) / scale };
+      public writeBe = function(this: Buffer, value: number, offset: number) { return signed ? this.writeIntBE(toRaw(value), offset, bytes) : this.writeUIntBE(toRaw(value), offset, bytes) };
+      public writeLe = function(this: Buffer, value: number, offset: number) { return signed ? this.writeIntLE(toRaw(value), offset, bytes) : this.writeUIntLE(toRaw(value), offset, bytes) };
+      public bitSize = () => width;
+    }
+  }
+  return fixedPointTypes[name];
+}
+
+export abstract class BigIntDataType extends NumericDataType {
+  public execute(buffer: PosBuffer): number | bigint {
+    const value = super.execute(buffer) as bigint;
+
+    return this.options?.asNumber ? toSafeNumber(value) : value;
+  }
+
+  public write(buffer: PosBuffer, value: number | bigint): Buffer {
+    return super.write(buffer, BigInt(value));
+  }
+}
+
+export class UInt64 extends BigIntDataType {
+  public be = Buffer.prototype.readBigUInt64BE;
+  public le = Buffer.prototype.readBigUInt64LE;
+  public writeBe = Buffer.prototype.writeBigUInt64BE;
+  public writeLe = Buffer.prototype.writeBigUInt64LE;
+  public bitSize = () => 64;
+}
+
+export class Int64 extends BigIntDataType {
+  public be = Buffer.prototype.readBigInt64BE;
+  public le = Buffer.prototype.readBigInt64LE;
+  public writeBe = Buffer.prototype.writeBigInt64BE;
+  public writeLe = Buffer.prototype.writeBigInt64LE;
+  public bitSize = () => 64;
+}
+
+export abstract class VarLengthDataType extends DataType {
+  private _size: number = 0;
+
+  protected abstract decode(raw: bigint, bitsRead: bigint): bigint;
+  protected abstract encode(value: bigint): number[];
+
+  public execute(buffer: PosBuffer): number | bigint {
+    this.assertAtByteBoundary(buffer.offset);
+    const bytes = buffer.buffer;
+    const start = buffer.offset.bytes;
+
+    let raw = BigInt(0);
+    let bitsRead = BigInt(0);
+    let index = start;
+    let byte;
+    do {
+      if (index >= bytes.length) {
+        throw new Error('Attempt to read outside of the buffer');
+      }
+      byte = bytes[index++];
+      raw |= BigInt(byte & 0x7F) << bitsRead;
+      bitsRead += BigInt(7);
+    } while (byte & 0x80);
+
+    this._size = (index - start) * 8;
+    return toSafeNumber(this.decode(raw, bitsRead));
+  }
+
+  public write(buffer: PosBuffer, value: number | bigint): Buffer {
+    this.assertAtByteBoundary(buffer.offset);
+    const encoded = Buffer.from(this.encode(BigInt(value)));
+    this._size = encoded.length * 8;
+    return encoded;
+  }
+
+  get size() {
+    return this._size;
+  }
+}
+
+export class VarUInt extends VarLengthDataType {
+  protected decode(raw: bigint): bigint {
+    return raw;
+  }
+
+  protected encode(value: bigint): number[] {
+    if (value < 0) throw new Error(`VarUInt cannot encode negative value ${value}`);
+
+    return encodeUnsignedLEB128(value);
+  }
+}
+
+export class VarInt extends VarLengthDataType {
+  protected decode(raw: bigint, bitsRead: bigint): bigint {
+    const signBit = BigInt(1) << (bitsRead - BigInt(1));
+    return (raw & signBit) ? raw - (signBit << BigInt(1)) : raw;
+  }
+
+  protected encode(value: bigint): number[] {
+    const bytes = [];
+    let remaining = value;
+    let done = false;
+    while (!done) {
+      let byte = Number(remaining & BigInt(0x7F));
+      remaining >>= BigInt(7);
+      done = (remaining === BigInt(0) && (byte & 0x40) === 0) || (remaining === BigInt(-1) && (byte & 0x40) !== 0);
+      if (!done) byte |= 0x80;
+      bytes.push(byte);
+    }
+    return bytes;
+  }
+}
+
+export class ZigZag extends VarLengthDataType {
+  protected decode(raw: bigint): bigint {
+    return (raw & BigInt(1)) ? -(raw >> BigInt(1)) - BigInt(1) : raw >> BigInt(1);
+  }
+
+  protected encode(value: bigint): number[] {
+    return encodeUnsignedLEB128(value < 0 ? (-value << BigInt(1)) - BigInt(1) : value << BigInt(1));
+  }
+}
+
 export class Bytes extends DataType {
   private _size: number;
-  private terminator: number | undefined;
+  private terminator: Buffer | undefined;
+  private codec: Codec;
+  private prefix: DataType | undefined;
+  private padding: Buffer | undefined;
+  private align: Alignment;
 
   constructor(options?: any) {
     super(options);
     this._size = options?.size;
+    this.codec = getCodec(options?.encoding || 'utf8');
     this.terminator = this.convertTerminator(options?.terminator);
+    this.prefix = options?.prefix ? new options.prefix({ mode: options.mode }) : undefined;
+    this.padding = this.convertPadding(options?.padding);
+    this.align = options?.align || 'left';
   }
 
   public execute(posBuffer: PosBuffer): Primitive {
+    if (this.prefix) {
+      return this.executePrefixed(posBuffer);
+    }
+
     const startingBuffer = posBuffer.buffer.slice(posBuffer.offset.bytes);
     let workingBuffer: Buffer = startingBuffer;
-    if (this._size) {
-      workingBuffer = startingBuffer.slice(0, this._size);
+    if (this._size != null) {
+      workingBuffer = this.stripPadding(startingBuffer.slice(0, this._size));
     } else if (this.terminator != null) {
-      const index = startingBuffer.findIndex(b => b == this.terminator);
+      const index = this.findTerminator(startingBuffer, this.terminator);
       if (index > -1) {
-        this._size = index + 1;
+        this._size = index + this.terminator.length;
         workingBuffer = startingBuffer.slice(0, index);
       }
     } else {
@@ -141,12 +322,18 @@ export class Bytes extends DataType {
   }
 
   public write(buffer: PosBuffer, value: Buffer): Buffer {
-    if (this._size) {
-      value = value.slice(0, this._size);      
+    if (this.prefix) {
+      const prefixBuffer = this.prefix.write(buffer, value.length);
+      this._size = prefixBuffer.length + value.length;
+      return Buffer.concat([prefixBuffer, value]);
+    }
+
+    if (this._size != null) {
+      value = this.pad(value.slice(0, this._size));
     }
 
     if (typeof this.terminator !== 'undefined') {
-      const terminatedBuffer = Buffer.concat([value, Buffer.from([this.terminator])]);
+      const terminatedBuffer = Buffer.concat([value, this.terminator]);
       this._size = terminatedBuffer.length;
       return terminatedBuffer;
     } else {
@@ -159,21 +346,90 @@ export class Bytes extends DataType {
     return this._size * 8;
   }
 
-  private convertTerminator(terminator: string | number | undefined): number | undefined {
+  private executePrefixed(posBuffer: PosBuffer): Buffer {
+    const length = this.prefix!.execute(posBuffer);
+    if (typeof length !== 'number') {
+      throw new Error(`Length prefix must be a number but was ${length}`);
+    }
+
+    const prefixBytes = this.prefix!.size / 8;
+    const start = posBuffer.offset.bytes + prefixBytes;
+    if (start + length > posBuffer.buffer.length) {
+      throw new Error('Attempt to read outside of the buffer');
+    }
+
+    this._size = prefixBytes + length;
+    return posBuffer.buffer.slice(start, start + length);
+  }
+
+  private stripPadding(value: Buffer): Buffer {
+    const padding = this.padding;
+    if (!padding) return value;
+
+    let start = 0;
+    let end = value.length;
+    if (this.align === 'right') {
+      while (start + padding.length <= end && value.slice(start, start + padding.length).equals(padding)) {
+        start += padding.length;
+      }
+    } else {
+      while (end - padding.length >= start && value.slice(end - padding.length, end).equals(padding)) {
+        end -= padding.length;
+      }
+    }
+    return value.slice(start, end);
+  }
+
+  private pad(value: Buffer): Buffer {
+    if (!this.padding || value.length >= this._size) return value;
+
+    const fill = Buffer.alloc(this._size - value.length, this.padding);
+    return this.align === 'right' ? Buffer.concat([fill, value]) : Buffer.concat([value, fill]);
+  }
+
+  private convertPadding(padding: string | number | undefined): Buffer | undefined {
+    if (typeof padding === 'number') {
+      if (padding < 0 || padding > 0xFF) throw new Error(`Padding must be a single byte but was ${padding}`);
+
+      return Buffer.from([padding]);
+    } else if (typeof padding === 'string') {
+      const padBuffer = padding.length === 1 ? this.codec.encode(padding) : Buffer.alloc(0);
+      if (padBuffer.length === 0) throw new Error(`Padding must be a single character but was '${padding}'`);
+
+      return padBuffer;
+    } else {
+      return undefined;
+    }
+  }
+
+  private findTerminator(buffer: Buffer, terminator: Buffer): number {
+    let index = buffer.indexOf(terminator);
+    while (index > -1 && index % this.codec.unitSize !== 0) {
+      index = buffer.indexOf(terminator, index + 1);
+    }
+    return index;
+  }
+
+  private convertTerminator(terminator: Terminator | undefined): Buffer | undefined {
+    let terminatorBuffer: Buffer;
     if (typeof terminator === 'number') {
-      return terminator;
+      terminatorBuffer = this.codec.unitSize > 1 ? this.codec.encode(String.fromCharCode(terminator)) : Buffer.from([terminator]);
     } else if (typeof terminator === 'string') {
-      if (terminator.length > 1) throw new Error('Terminator must be a single character');
-
-      return terminator.charCodeAt(0);
+      terminatorBuffer = this.codec.encode(terminator);
+    } else if (Buffer.isBuffer(terminator) || Array.isArray(terminator)) {
+      terminatorBuffer = Buffer.from(terminator);
     } else {
       return undefined;
     }
+
+    if (terminatorBuffer.length === 0) throw new Error('Terminator must not be empty');
+    return terminatorBuffer;
   }
 }
 
 export class Text extends DataType {
   private encoding: Encoding;
+  private codec: Codec;
   private _size: number;
   private byteType: Bytes;
 
@@ -181,17 +437,18 @@ export class Text extends DataType {
     super(options);
     this._size = options?.size;
     this.encoding = options?.encoding || 'utf8';
-    this.byteType = new Bytes(options);
+    this.codec = getCodec(this.encoding);
+    this.byteType = new Bytes({ ...options, encoding: this.encoding });
   }
 
   public execute(buffer: PosBuffer): Primitive {
     const fetchedBuffer: Buffer = this.byteType.execute(buffer) as Buffer;
     this._size = fetchedBuffer.length;
-    return fetchedBuffer.toString(this.encoding);
+    return this.codec.decode(fetchedBuffer);
   }
 
   public write(posBuffer: PosBuffer, value: string): Buffer {
-    const stringBuffer = Buffer.from(value, this.encoding);
+    const stringBuffer = this.codec.encode(value);
 
     return this.byteType.write(posBuffer, stringBuffer);
   }
@@ -202,32 +459,756 @@ export class Text extends DataType {
 
 }
 
-export abstract class Bits extends DataType {
+export abstract class FormattedBytes extends DataType {
+  private byteType: Bytes;
+
+  constructor(options: TypeOptions | undefined, private byteLength: number, private typeName: string) {
+    super(options);
+    this.byteType = new Bytes({ size: byteLength });
+  }
+
+  protected abstract format(bytes: Buffer): string;
+  protected abstract parse(value: string): Buffer | undefined;
+
+  public execute(buffer: PosBuffer): Primitive {
+    this.assertAtByteBoundary(buffer.offset);
+    const bytes = this.byteType.execute(buffer) as Buffer;
+
+    if (bytes.length < this.byteLength) {
+      throw new Error('Attempt to read outside of the buffer');
+    }
+    return this.format(bytes);
+  }
+
+  public write(buffer: PosBuffer, value: string): Buffer {
+    this.assertAtByteBoundary(buffer.offset);
+    if (value == null) {
+      return this.byteType.write(buffer, Buffer.alloc(this.byteLength));
+    }
+
+    const bytes = typeof value === 'string' ? this.parse(value) : undefined;
+    if (!bytes) {
+      throw new Error(`Invalid ${this.typeName} ${value}`);
+    }
+    return this.byteType.write(buffer, bytes);
+  }
+
+  get size() {
+    return this.byteLength * 8;
+  }
+}
+
+export class UUID extends FormattedBytes {
+  constructor(options?: TypeOptions, typeName: string = 'UUID') {
+    super(options, 16, typeName);
+  }
+
+  protected format(bytes: Buffer): string {
+    const hex = this.order(bytes).toString('hex');
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+  }
+
+  protected parse(value: string): Buffer | undefined {
+    const match = /^\{?([0-9a-f]{8})-([0-9a-f]{4})-([0-9a-f]{4})-([0-9a-f]{4})-([0-9a-f]{12})\}?$/i.exec(value);
+    return match ? this.order(Buffer.from(match.slice(1).join(''), 'hex')) : undefined;
+  }
+
+  protected order(bytes: Buffer): Buffer {
+    return bytes;
+  }
+}
+
+export class GUID extends UUID {
+  constructor(options?: TypeOptions) {
+    super(options, 'GUID');
+  }
+
+  protected order(bytes: Buffer): Buffer {
+    return Buffer.concat([
+      Buffer.from(bytes.slice(0, 4)).reverse(),
+      Buffer.from(bytes.slice(4, 6)).reverse(),
+      Buffer.from(bytes.slice(6, 8)).reverse(),
+      bytes.slice(8)
+    ]);
+  }
+}
+
+export class IPv4 extends FormattedBytes {
+  constructor(options?: TypeOptions) {
+    super(options, 4, 'IPv4');
+  }
+
+  protected format(bytes: Buffer): string {
+    return Array.from(bytes).join('.');
+  }
+
+  protected parse(value: string): Buffer | undefined {
+    const parts = value.split('.');
+    if (parts.length !== 4 || parts.some((p) => !/^\d{1,3}$/.test(p) || parseInt(p, 10) > 255)) {
+      return undefined;
+    }
+    return Buffer.from(parts.map((p) => parseInt(p, 10)));
+  }
+}
+
+export class IPv6 extends FormattedBytes {
+  constructor(options?: TypeOptions) {
+    super(options, 16, 'IPv6');
+  }
+
+  protected format(bytes: Buffer): string {
+    const groups = [];
+    for (let i = 0; i < 16; i += 2) {
+      groups.push(bytes.readUInt16BE(i));
+    }
+
+    // RFC 5952 - the longest run of at least two zero groups (the first if tied) is compressed
+    let bestStart = -1;
+    let bestLength = 1;
+    for (let start = 0; start < groups.length; start++) {
+      let length = 0;
+      while (start + length < groups.length && groups[start + length] === 0) length++;
+      if (length > bestLength) {
+        bestStart = start;
+        bestLength = length;
+      }
+    }
+
+    const hex = groups.map((g) => g.toString(16));
+    if (bestStart === -1) {
+      return hex.join(':');
+    }
+    return `${hex.slice(0, bestStart).join(':')}::${hex.slice(bestStart + bestLength).join(':')}`;
+  }
+
+  protected parse(value: string): Buffer | undefined {
+    const halves = value.split('::');
+    if (halves.length > 2) return undefined;
+
+    const toGroups = (part: string) => part === '' ? [] : part.split(':');
+    const head = toGroups(halves[0]);
+    const tail = halves.length === 2 ? toGroups(halves[1]) : [];
+    const missing = 8 - head.length - tail.length;
+
+    if ((halves.length === 1 && missing !== 0) || (halves.length === 2 && missing < 1)) {
+      return undefined;
+    }
+
+    const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+    if (groups.some((g) => !/^[0-9a-f]{1,4}$/i.test(g))) {
+      return undefined;
+    }
+
+    const bytes = Buffer.alloc(16);
+    groups.forEach((g, i) => bytes.writeUInt16BE(parseInt(g, 16), i * 2));
+    return bytes;
+  }
+}
+
+export class MAC extends FormattedBytes {
+  constructor(options?: TypeOptions) {
+    super(options, 6, 'MAC');
+  }
+
+  protected format(bytes: Buffer): string {
+    return Array.from(bytes).map((b) => ('0' + b.toString(16)).slice(-2)).join(':');
+  }
+
+  protected parse(value: string): Buffer | undefined {
+    const match = /^([0-9a-f]{2})([:-]?)([0-9a-f]{2})\2([0-9a-f]{2})\2([0-9a-f]{2})\2([0-9a-f]{2})\2([0-9a-f]{2})$/i.exec(value);
+    return match ? Buffer.from([1, 3, 4, 5, 6, 7].map((i) => match[i]).join(''), 'hex') : undefined;
+  }
+}
+
+export interface EnumOptions {
+  unknown?: 'throw' | 'raw' | 'fallback';
+  fallback?: string;
+}
+
+export type EnumCtor = DataTypeCtor & { values: { [name: string]: number } };
+
+export function Enum(Type: DataTypeCtor, values: { [name: string]: number }, enumOptions: EnumOptions = {}): EnumCtor {
+  const names: { [value: string]: string } = {};
+  Object.keys(values).forEach((name) => names[values[name].toString()] = name);
+
+  const unknown = enumOptions.unknown ?? 'throw';
+  if (unknown === 'fallback' && enumOptions.fallback === undefined) {
+    throw new Error('A fallback name must be provided when unknown values use the fallback policy');
+  }
+
+  return class extends DataType {
+    static values = values;
+
+    private valueType: DataType;
+
+    constructor(options?: TypeOptions) {
+      super(options);
+      this.valueType = new Type(options);
+    }
+
+    public execute(buffer: PosBuffer): Primitive {
+      const value = this.valueType.execute(buffer);
+      const name = names[value.toString()];
+
+      if (name !== undefined) {
+        return name;
+      } else if (unknown === 'raw') {
+        return value;
+      } else if (unknown === 'fallback') {
+        return enumOptions.fallback!;
+      }
+      throw new Error(`Unknown enum value ${value}`);
+    }
+
+    public write(buffer: PosBuffer, value: Primitive): Buffer {
+      if (typeof value === 'string') {
+        if (!values.hasOwnProperty(value)) {
+          throw new Error(`Unknown enum name ${value}`);
+        }
+        return this.valueType.write(buffer, values[value]);
+      } else if (unknown === 'throw' && names[String(value)] === undefined) {
+        throw new Error(`Unknown enum value ${value}`);
+      }
+      return this.valueType.write(buffer, value);
+    }
+
+    get size() {
+      return this.valueType.size;
+    }
+  }
+}
+
+export interface FlagsOptions {
+  asArray?: boolean;
+  strict?: boolean;
+}
+
+export type FlagValues = { [flag: string]: boolean } | string[];
+
+export type FlagsCtor = DataTypeCtor & { flags: { [flag: string]: number } };
+
+export function Flags(Type: DataTypeCtor, flags: { [flag: string]: number }, flagsOptions: FlagsOptions = {}): FlagsCtor {
+  const flagNames = Object.keys(flags);
+  const knownBits = flagNames.reduce((mask, flag) => mask | (BigInt(1) << BigInt(flags[flag])), BigInt(0));
+
+  return class extends DataType {
+    static flags = flags;
+
+    private valueType: DataType;
+
+    constructor(options?: TypeOptions) {
+      super(options);
+      this.valueType = new Type(options);
+    }
+
+    public execute(buffer: PosBuffer): Primitive {
+      const raw = BigInt(this.valueType.execute(buffer));
+
+      if (flagsOptions.strict && (raw & ~knownBits) !== BigInt(0)) {
+        throw new Error(`Unknown flag bits 0x${(raw & ~knownBits).toString(16).toUpperCase()}`);
+      }
+
+      const isSet = (flag: string) => ((raw >> BigInt(flags[flag])) & BigInt(1)) === BigInt(1);
+      if (flagsOptions.asArray) {
+        return flagNames.filter(isSet);
+      }
+      return flagNames.reduce((result, flag) => ({ ...result, [flag]: isSet(flag) }), {});
+    }
+
+    public write(buffer: PosBuffer, value: FlagValues): Buffer {
+      const setFlags = Array.isArray(value) ? value : Object.keys(value ?? {}).filter((flag) => (value as { [flag: string]: boolean })[flag]);
+
+      const raw = setFlags.reduce((mask, flag) => {
+        if (!flags.hasOwnProperty(flag)) {
+          if (flagsOptions.strict) throw new Error(`Unknown flag ${flag}`);
+          return mask;
+        }
+        return mask | (BigInt(1) << BigInt(flags[flag]));
+      }, BigInt(0));
+
+      return this.valueType.write(buffer, this.valueType instanceof BigIntDataType ? raw : Number(raw));
+    }
+
+    get size() {
+      return this.valueType.size;
+    }
+  }
+}
+
+export interface ArrayOptions {
+  length?: number | ((r: any) => number);
+  typed?: boolean;
+}
+
+export type NumericArray = (number | bigint)[] | Uint8Array | Int8Array | Uint16Array | Int16Array | Uint32Array | Int32Array
+  | Float32Array | Float64Array | BigUint64Array | BigInt64Array;
+
+export type ArrayCtor = DataTypeCtor & { elementType: DataTypeCtor, arrayOptions: ArrayOptions };
+
+type TypedArrayCtor = new (length: number) => Exclude<NumericArray, (number | bigint)[]>;
+
+const typedArrays = new Map<DataTypeCtor, TypedArrayCtor>([
+  [UInt8, Uint8Array], [Int8, Int8Array], [UInt16, Uint16Array], [Int16, Int16Array], [UInt32, Uint32Array], [Int32, Int32Array],
+  [Float, Float32Array], [Double, Float64Array], [UInt64, BigUint64Array], [Int64, BigInt64Array]
+]);
+
+export function ArrayOf(Type: DataTypeCtor, arrayOptions: ArrayOptions = {}): ArrayCtor {
+  const TypedArray = typedArrays.get(Type);
+  if (arrayOptions.typed && !TypedArray) {
+    throw new Error(`There is no typed array for ${Type.name}`);
+  }
+
+  return class extends DataType {
+    static elementType = Type;
+    static arrayOptions = arrayOptions;
+
+    private element: DataType;
+    private _size = 0;
+
+    constructor(options?: TypeOptions) {
+      super(options);
+      this.element = new Type(options);
+    }
+
+    public execute(buffer: PosBuffer): Primitive {
+      this.assertAtByteBoundary(buffer.offset);
+      const start = buffer.offset.bytes;
+      const length = this.length;
+
+      if (this.isPlainNumeric(this.element)) {
+        const elementBytes = this.element.size / 8;
+        const count = length ?? Math.floor((buffer.length - start) / elementBytes);
+        if (start + count * elementBytes > buffer.length) {
+          throw new Error('Attempt to read outside of the buffer');
+        }
+
+        const values = arrayOptions.typed ? new TypedArray!(count) : new Array(count);
+        const read = ((this.options?.mode ?? buffer.mode) === Mode.BE) ? this.element.be : this.element.le;
+        for (let i = 0; i < count; i++) {
+          values[i] = read.call(buffer.buffer, start + i * elementBytes);
+        }
+        this._size = count * elementBytes * 8;
+        return values;
+      }
+
+      const values: (number | bigint)[] = [];
+      while (length != null ? values.length < length : start + this._size / 8 < buffer.length) {
+        buffer.offset = { bytes: start + this._size / 8, bits: 0 };
+        values.push(this.element.execute(buffer) as number | bigint);
+        this._size += this.element.size;
+      }
+      buffer.offset = { bytes: start, bits: 0 };
+
+      if (arrayOptions.typed) {
+        const typedValues = new TypedArray!(values.length);
+        values.forEach((v, i) => typedValues[i] = v);
+        return typedValues;
+      }
+      return values;
+    }
+
+    public write(buffer: PosBuffer, value: NumericArray): Buffer {
+      this.assertAtByteBoundary(buffer.offset);
+      const length = this.length;
+      if (length != null && length !== value.length) {
+        throw new Error(`Expected ${length} elements but there were ${value.length}`);
+      }
+
+      let bytes: Buffer;
+      if (this.isPlainNumeric(this.element)) {
+        const elementBytes = this.element.size / 8;
+        const write = ((this.options?.mode ?? buffer.mode) === Mode.BE) ? this.element.writeBe : this.element.writeLe;
+        bytes = Buffer.alloc(value.length * elementBytes);
+        for (let i = 0; i < value.length; i++) {
+          write.call(bytes, value[i], i * elementBytes);
+        }
+      } else {
+        bytes = Buffer.concat(Array.from(value as ArrayLike<number | bigint>, (v) => this.element.write(buffer, v)));
+      }
+      this._size = bytes.length * 8;
+      return bytes;
+    }
+
+    get size() {
+      return this._size;
+    }
+
+    private get length(): number | undefined {
+      return this.options?.length ?? (typeof arrayOptions.length === 'number' ? arrayOptions.length : undefined);
+    }
+
+    private isPlainNumeric(element: DataType): element is NumericDataType {
+      return element instanceof NumericDataType
+        && element.execute === NumericDataType.prototype.execute
+        && element.write === NumericDataType.prototype.write;
+    }
+  }
+}
+
+export abstract class DecimalDataType extends DataType {
+  protected digits: number;
+
+  constructor(options?: any) {
+    super(options);
+    this.digits = options?.digits ?? 2;
+  }
+
+  protected abstract decode(nibbles: number[]): { digits: number[], negative: boolean, padding: number[] };
+  protected abstract encode(digits: number[], negative: boolean): number[];
+
+  public execute(buffer: PosBuffer): Primitive {
+    this.assertAtByteBoundary(buffer.offset);
+    const start = buffer.offset.bytes;
+    const end = start + this.size / 8;
+
+    if (end > buffer.buffer.length) {
+      throw new Error('Attempt to read outside of the buffer');
+    }
+
+    const nibbles: number[] = [];
+    buffer.buffer.slice(start, end).forEach((byte) => nibbles.push(byte >> 4, byte & 0x0F));
+
+    const { digits, negative, padding } = this.decode(nibbles);
+    const invalidPadding = padding.find((p) => p !== 0);
+    if (invalidPadding !== undefined) {
+      throw new Error(`Invalid decimal padding 0x${invalidPadding.toString(16).toUpperCase()} at byte ${start}`);
+    }
+
+    const invalidDigit = digits.find((d) => d > 9);
+    if (invalidDigit !== undefined) {
+      throw new Error(`Invalid decimal digit 0x${invalidDigit.toString(16).toUpperCase()} at byte ${start}`);
+    }
+
+    const digitString = digits.join('');
+    if (this.options?.asString) {
+      return negative ? `-${digitString}` : digitString;
+    }
+    const value = parseInt(digitString, 10);
+    return negative && value !== 0 ? -value : value;
+  }
+
+  public write(buffer: PosBuffer, value: number | string): Buffer {
+    this.assertAtByteBoundary(buffer.offset);
+    const valueString = (value ?? 0).toString();
+    const match = /^(-?)(\d+)$/.exec(valueString);
+
+    if (!match) {
+      throw new Error(`Value ${valueString} is not a whole decimal number`);
+    }
+
+    const digitString = match[2].replace(/^0+(?=\d)/, '');
+    if (digitString.length > this.digits) {
+      throw new Error(`Value ${valueString} has more than ${this.digits} digits`);
+    }
+
+    const digits = ('0'.repeat(this.digits - digitString.length) + digitString).split('').map((d) => parseInt(d, 10));
+    const nibbles = this.encode(digits, match[1] === '-');
+    const bytes = [];
+    for (let i = 0; i < nibbles.length; i += 2) {
+      bytes.push((nibbles[i] << 4) | nibbles[i + 1]);
+    }
+    return Buffer.from(bytes);
+  }
+}
+
+export class BCD extends DecimalDataType {
+  protected decode(nibbles: number[]) {
+    return { digits: nibbles.slice(nibbles.length - this.digits), negative: false, padding: nibbles.slice(0, nibbles.length - this.digits) };
+  }
+
+  protected encode(digits: number[], negative: boolean): number[] {
+    if (negative) throw new Error('BCD cannot encode negative values');
+
+    return (digits.length % 2) ? [0, ...digits] : digits;
+  }
+
+  get size() {
+    return Math.ceil(this.digits / 2) * 8;
+  }
+}
+
+export class PackedDecimal extends DecimalDataType {
+  protected decode(nibbles: number[]) {
+    const sign = nibbles[nibbles.length - 1];
+    if (sign < 0x0A) {
+      throw new Error(`Invalid packed decimal sign 0x${sign.toString(16).toUpperCase()}`);
+    }
+    return {
+      digits: nibbles.slice(nibbles.length - 1 - this.digits, nibbles.length - 1),
+      negative: sign === 0x0B || sign === 0x0D,
+      padding: nibbles.slice(0, nibbles.length - 1 - this.digits)
+    };
+  }
+
+  protected encode(digits: number[], negative: boolean): number[] {
+    const nibbles = [...digits, negative ? 0x0D : 0x0C];
+    return (nibbles.length % 2) ? [0, ...nibbles] : nibbles;
+  }
+
+  get size() {
+    return (Math.floor(this.digits / 2) + 1) * 8;
+  }
+}
+
+export abstract class TimestampDataType extends DataType {
+  protected abstract readNanos(buffer: PosBuffer): bigint;
+  protected abstract writeNanos(buffer: PosBuffer, nanos: bigint): Buffer;
+
+  public execute(buffer: PosBuffer): Primitive {
+    this.assertAtByteBoundary(buffer.offset);
+    const nanos = this.readNanos(buffer);
+    return this.options?.asNanos ? nanos : new Date(Number(floorDiv(nanos, BigInt(1000000))));
+  }
+
+  public write(buffer: PosBuffer, value: Date | bigint): Buffer {
+    this.assertAtByteBoundary(buffer.offset);
+    if (value == null) {
+      return Buffer.alloc(this.size / 8);
+    }
+    const nanos = typeof value === 'bigint' ? value : BigInt(value.getTime()) * BigInt(1000000);
+    return this.writeNanos(buffer, nanos);
+  }
+
+  protected outOfRange(nanos: bigint): Error {
+    return new Error(`${new Date(Number(floorDiv(nanos, BigInt(1000000)))).toISOString()} is out of range for ${this.constructor.name}`);
+  }
+}
+
+export abstract class ScaledTimestamp extends TimestampDataType {
+  private valueType: NumericDataType;
+  private unitNanos: bigint;
+  private epochNanos: bigint;
+
+  constructor(options: TypeOptions | undefined, Type: NumericTypeCtor, unitNanos: number, epochSeconds: number = 0) {
+    super(options);
+    this.valueType = new Type(options);
+    this.unitNanos = BigInt(unitNanos);
+    this.epochNanos = BigInt(epochSeconds) * BigInt(1000000000);
+  }
+
+  protected readNanos(buffer: PosBuffer): bigint {
+    return BigInt(this.valueType.execute(buffer)) * this.unitNanos + this.epochNanos;
+  }
+
+  protected writeNanos(buffer: PosBuffer, nanos: bigint): Buffer {
+    const raw = floorDiv(nanos - this.epochNanos, this.unitNanos);
+    const [min, max] = this.range();
+    if (raw < min || raw > max) {
+      throw this.outOfRange(nanos);
+    }
+    return this.valueType.write(buffer, this.valueType instanceof BigIntDataType ? raw : Number(raw));
+  }
+
+  private range(): [bigint, bigint] {
+    const bits = BigInt(this.valueType.size);
+    return this.valueType instanceof Int64
+      ? [-(BigInt(1) << (bits - BigInt(1))), (BigInt(1) << (bits - BigInt(1))) - BigInt(1)]
+      : [BigInt(0), (BigInt(1) << bits) - BigInt(1)];
+  }
+
+  get size() {
+    return this.valueType.size;
+  }
+}
+
+export class UnixSeconds32 extends ScaledTimestamp {
+  constructor(options?: TypeOptions) {
+    super(options, UInt32, 1000000000);
+  }
+}
+
+export class UnixSeconds64 extends ScaledTimestamp {
+  constructor(options?: TypeOptions) {
+    super(options, Int64, 1000000000);
+  }
+}
+
+export class UnixMillis32 extends ScaledTimestamp {
+  constructor(options?: TypeOptions) {
+    super(options, UInt32, 1000000);
+  }
+}
+
+export class UnixMillis64 extends ScaledTimestamp {
+  constructor(options?: TypeOptions) {
+    super(options, Int64, 1000000);
+  }
+}
+
+export class FileTime extends ScaledTimestamp {
+  constructor(options?: TypeOptions) {
+    super(options, UInt64, 100, -11644473600);
+  }
+}
+
+export class NtpTimestamp extends TimestampDataType {
+  private valueType: NumericDataType;
+  private epochNanos = BigInt(-2208988800) * BigInt(1000000000);
+
+  constructor(options?: TypeOptions) {
+    super(options);
+    this.valueType = new UInt64(options);
+  }
+
+  protected readNanos(buffer: PosBuffer): bigint {
+    const raw = BigInt(this.valueType.execute(buffer));
+    return ((raw * BigInt(1000000000) + (BigInt(1) << BigInt(31))) >> BigInt(32)) + this.epochNanos;
+  }
+
+  protected writeNanos(buffer: PosBuffer, nanos: bigint): Buffer {
+    const raw = (((nanos - this.epochNanos) << BigInt(32)) + BigInt(500000000)) / BigInt(1000000000);
+    if (nanos < this.epochNanos || raw >= (BigInt(1) << BigInt(64))) {
+      throw this.outOfRange(nanos);
+    }
+    return this.valueType.write(buffer, raw);
+  }
+
+  get size() {
+    return 64;
+  }
+}
+
+export class DosDateTime extends TimestampDataType {
+  private valueType: NumericDataType;
+
+  constructor(options?: TypeOptions) {
+    super(options);
+    this.valueType = new UInt32(options);
+  }
+
+  protected readNanos(buffer: PosBuffer): bigint {
+    const raw = this.valueType.execute(buffer) as number;
+    const date = raw >>> 16;
+    const time = raw & 0xFFFF;
+
+    const month = (date >> 5) & 0x0F;
+    const day = date & 0x1F;
+    if (month < 1 || month > 12 || day < 1 || (time >> 11) > 23 || ((time >> 5) & 0x3F) > 59 || (time & 0x1F) > 29) {
+      throw new Error(`Invalid DOS date/time 0x${('0000000' + raw.toString(16).toUpperCase()).slice(-8)}`);
+    }
+
+    const millis = Date.UTC(1980 + (date >> 9), month - 1, day, time >> 11, (time >> 5) & 0x3F, (time & 0x1F) * 2);
+    return BigInt(millis) * BigInt(1000000);
+  }
+
+  protected writeNanos(buffer: PosBuffer, nanos: bigint): Buffer {
+    const dateTime = new Date(Number(floorDiv(nanos, BigInt(1000000))));
+    const year = dateTime.getUTCFullYear();
+    if (year < 1980 || year > 2107) {
+      throw new Error(`DOS date/time cannot represent the year ${year}`);
+    }
+
+    const date = ((year - 1980) << 9) | ((dateTime.getUTCMonth() + 1) << 5) | dateTime.getUTCDate();
+    const time = (dateTime.getUTCHours() << 11) | (dateTime.getUTCMinutes() << 5) | Math.floor(dateTime.getUTCSeconds() / 2);
+    return this.valueType.write(buffer, ((date << 16) | time) >>> 0);
+  }
+
+  get size() {
+    return 32;
+  }
+}
+
+export class GpsTime extends TimestampDataType {
+  private epochSeconds = 315964800;
+  private secondsPerWeek = 604800;
+
+  protected readNanos(buffer: PosBuffer): bigint {
+    const offset = buffer.offset.bytes;
+    if (offset + 6 > buffer.buffer.length) {
+      throw new Error('Attempt to read outside of the buffer');
+    }
+
+    const le = (this.options?.mode ?? buffer.mode) === Mode.LE;
+    const week = le ? buffer.buffer.readUInt16LE(offset) : buffer.buffer.readUInt16BE(offset);
+    const seconds = le ? buffer.buffer.readUInt32LE(offset + 2) : buffer.buffer.readUInt32BE(offset + 2);
+
+    const gpsUnixSeconds = this.epochSeconds + week * this.secondsPerWeek + seconds;
+    return BigInt(gpsUnixSeconds - this.leapSecondsAtGps(gpsUnixSeconds)) * BigInt(1000000000);
+  }
+
+  protected writeNanos(buffer: PosBuffer, nanos: bigint): Buffer {
+    const unixSeconds = Number(floorDiv(nanos, BigInt(1000000000)));
+    const gpsSeconds = unixSeconds - this.epochSeconds + this.leapSecondsAtUtc(unixSeconds);
+    const week = Math.floor(gpsSeconds / this.secondsPerWeek);
+    if (week < 0 || week > 0xFFFF) {
+      throw this.outOfRange(nanos);
+    }
+
+    const tempBuffer = Buffer.alloc(6);
+    if ((this.options?.mode ?? buffer.mode) === Mode.LE) {
+      tempBuffer.writeUInt16LE(week, 0);
+      tempBuffer.writeUInt32LE(gpsSeconds - week * this.secondsPerWeek, 2);
+    } else {
+      tempBuffer.writeUInt16BE(week, 0);
+      tempBuffer.writeUInt32BE(gpsSeconds - week * this.secondsPerWeek, 2);
+    }
+    return tempBuffer;
+  }
+
+  get size() {
+    return 48;
+  }
+
+  private leapSecondsAtUtc(unixSeconds: number): number {
+    if (this.options?.leapSeconds != null) return this.options.leapSeconds;
+
+    return leapSecondDates.filter((date) => unixSeconds >= date).length;
+  }
+
+  private leapSecondsAtGps(gpsUnixSeconds: number): number {
+    if (this.options?.leapSeconds != null) return this.options.leapSeconds;
+
+    return leapSecondDates.filter((date, i) => gpsUnixSeconds - (i + 1) >= date).length;
+  }
+}
+
+// UTC dates (as Unix seconds) from which GPS time is each further second ahead of UTC
+const leapSecondDates = [
+  [1981, 6], [1982, 6], [1983, 6], [1985, 6], [1988, 0], [1990, 0], [1991, 0], [1992, 6], [1993, 6],
+  [1994, 6], [1996, 0], [1997, 6], [1999, 0], [2006, 0], [2009, 0], [2012, 6], [2015, 6], [2017, 0]
+].map(([year, month]) => Date.UTC(year, month, 1) / 1000);
+
+export abstract class BitField extends DataType {
 
   private _size: number;
+  private signed: boolean;
 
   constructor(options?: any) {
     super(options);
     this._size = options.size;
+    this.signed = options.signed ?? false;
   }
 
   execute(buffer: PosBuffer): Primitive {
-    const bytesToRead = Math.ceil((buffer.offset.bits + this._size) / 8);
-    const value = buffer.buffer.readUIntBE(buffer.offset.bytes, bytesToRead);
+    const bytes = buffer.buffer;
+    const { bytes: startByte, bits: startBit } = buffer.offset;
+
+    if (startByte + Math.ceil((startBit + this._size) / 8) > bytes.length) {
+      throw new Error('Attempt to read outside of the buffer');
+    }
 
-    const bitsRead = bytesToRead * 8;
-    const bitMask = ((2 ** this._size) - 1);
-    const result = ((value >> (bitsRead - this._size - buffer.offset.bits)) & bitMask);
+    let value = 0;
+    for (let i = 0; i < this._size; i++) {
+      const bitPos = startBit + i;
+      const byte = bytes[startByte + Math.floor(bitPos / 8)];
+      value = (value * 2) + ((byte >> (7 - (bitPos % 8))) & 0x1);
+    }
 
-    return result;
+    if (this.signed && value >= 2 ** (this._size - 1)) {
+      value -= 2 ** this._size;
+    }
+
+    return value;
   }
 
   public write(buffer: PosBuffer, value: number | boolean): Buffer {
-    const numValue: number = typeof value === 'number' ? value : (value ? 1 : 0);
+    const numValue: number = typeof value === 'number' ? Math.trunc(value) : (value ? 1 : 0);
+    const range = 2 ** this._size;
+    const unsignedValue = numValue < 0 ? (numValue % range) + range : numValue % range;
     const startPos = buffer.offset.bits;
     for (let i = 0; i < this._size; i++) {
-      buffer.flipBits((startPos + i) % 8, (numValue >> (this._size - i - 1)) & 0x1);
-    }    
+      buffer.flipBits((startPos + i) % 8, Math.floor(unsignedValue / 2 ** (this._size - i - 1)) % 2);
+    }
     return Buffer.from([]);
   }
 
@@ -236,7 +1217,7 @@ export abstract class Bits extends DataType {
   }
 }
 
-export class Bool extends Bits {
+export class Bool extends BitField {
   constructor(options?: any) {
     super({...options, size: 1} )
   }
@@ -252,98 +1233,133 @@ export class Bool extends Bits {
   }
 }
 
-export class Bit extends Bits {
+export class Bit extends BitField {
   constructor(options?: any) {
     super({...options, size: 1} )
   }
 }
 
-export class Bits2 extends Bits {
-  constructor(options?: any) {
-    super({...options, size: 2} )
-  }
+const bitFieldTypes: { [key: string]: DataTypeCtor } = {};
+
+export function Bits(size: number): DataTypeCtor {
+  return bitFieldType(size, false);
 }
 
-export class Bits3 extends Bits {
-  constructor(options?: any) {
-    super({...options, size: 3} )
-  }
+export function SignedBits(size: number): DataTypeCtor {
+  return bitFieldType(size, true);
 }
 
-export class Bits4 extends Bits {
-  constructor(options?: any) {
-    super({...options, size: 4} )
+function bitFieldType(size: number, signed: boolean): DataTypeCtor {
+  if (!Number.isInteger(size) || size < 1 || size > 53) {
+    throw new Error(`Bit field width must be an integer between 1 and 53 but was ${size}`);
   }
-}
 
-export class Bits5 extends Bits {
-  constructor(options?: any) {
-    super({...options, size: 5} )
+  const key = `${signed ? 'SignedBits' : 'Bits'}${size}`;
+  if (!bitFieldTypes[key]) {
+    bitFieldTypes[key] = class extends BitField {
+      constructor(options?: any) {
+        super({ ...options, size, signed });
+      }
+    }
   }
+  return bitFieldTypes[key];
 }
 
-export class Bits6 extends Bits {
-  constructor(options?: any) {
-    super({...options, size: 6} )
-  }
+export const Bits2 = Bits(2);
+export const Bits3 = Bits(3);
+export const Bits4 = Bits(4);
+export const Bits5 = Bits(5);
+export const Bits6 = Bits(6);
+export const Bits7 = Bits(7);
+export const Bits8 = Bits(8);
+export const Bits9 = Bits(9);
+export const Bits10 = Bits(10);
+export const Bits11 = Bits(11);
+export const Bits12 = Bits(12);
+export const Bits13 = Bits(13);
+export const Bits14 = Bits(14);
+export const Bits15 = Bits(15);
+export const Bits16 = Bits(16);
+
+function floorDiv(dividend: bigint, divisor: bigint): bigint {
+  const quotient = dividend / divisor;
+  return (dividend % divisor !== BigInt(0) && (dividend < 0) !== (divisor < 0)) ? quotient - BigInt(1) : quotient;
 }
 
-export class Bits7 extends Bits {
-  constructor(options?: any) {
-    super({...options, size: 7} )
-  }
+function toSafeNumber(value: bigint): number | bigint {
+  return (value <= Number.MAX_SAFE_INTEGER && value >= Number.MIN_SAFE_INTEGER) ? Number(value) : value;
 }
 
-export class Bits8 extends Bits {
-  constructor(options?: any) {
-    super({...options, size: 8} )
-  }
+function encodeUnsignedLEB128(value: bigint): number[] {
+  const bytes = [];
+  let remaining = value;
+  do {
+    let byte = Number(remaining & BigInt(0x7F));
+    remaining >>= BigInt(7);
+    if (remaining !== BigInt(0)) byte |= 0x80;
+    bytes.push(byte);
+  } while (remaining !== BigInt(0));
+  return bytes;
 }
 
-export class Bits9 extends Bits {
-  constructor(options?: any) {
-    super({...options, size: 9} )
+function decodeMinifloat(bits: number, exponentBits: number, mantissaBits: number): number {
+  const maxExponent = 2 ** exponentBits - 1;
+  const bias = 2 ** (exponentBits - 1) - 1;
+  const sign = (bits >> (exponentBits + mantissaBits)) & 0x1 ? -1 : 1;
+  const exponent = (bits >> mantissaBits) & maxExponent;
+  const mantissa = bits & (2 ** mantissaBits - 1);
+
+  if (exponent === 0) {
+    return sign * mantissa * 2 ** (1 - bias - mantissaBits);
+  } else if (exponent === maxExponent) {
+    return mantissa ? NaN : sign * Infinity;
   }
+  return sign * (2 ** mantissaBits + mantissa) * 2 ** (exponent - bias - mantissaBits);
 }
 
-export class Bits10 extends Bits {
-  constructor(options?: any) {
-    super({...options, size: 10} )
+function encodeMinifloat(value: number, exponentBits: number, mantissaBits: number): number {
+  const maxExponent = 2 ** exponentBits - 1;
+  const bias = 2 ** (exponentBits - 1) - 1;
+
+  if (Number.isNaN(value)) {
+    return (maxExponent << mantissaBits) | (1 << (mantissaBits - 1));
   }
-}
 
-export class Bits11 extends Bits {
-  constructor(options?: any) {
-    super({...options, size: 11} )
+  const sign = (value < 0 || Object.is(value, -0)) ? 1 << (exponentBits + mantissaBits) : 0;
+  const magnitude = Math.abs(value);
+
+  if (magnitude === Infinity) {
+    return sign | (maxExponent << mantissaBits);
+  } else if (magnitude === 0) {
+    return sign;
   }
-}
 
-export class Bits12 extends Bits {
-  constructor(options?: any) {
-    super({...options, size: 12} )
+  let exponent = Math.floor(Math.log2(magnitude));
+  if (2 ** exponent > magnitude) {
+    exponent--;
+  } else if (2 ** (exponent + 1) <= magnitude) {
+    exponent++;
   }
-}
 
-export class Bits13 extends Bits {
-  constructor(options?: any) {
-    super({...options, size: 13} )
+  if (exponent < 1 - bias) {
+    // subnormal - rounding up to the smallest normal value gives the correct encoding anyway
+    return sign | roundHalfToEven(magnitude / 2 ** (1 - bias - mantissaBits));
   }
-}
 
-export class Bits14 extends Bits {
-  constructor(options?: any) {
-    super({...options, size: 14} )
+  let mantissa = roundHalfToEven((magnitude / 2 ** exponent - 1) * 2 ** mantissaBits);
+  if (mantissa === 2 ** mantissaBits) {
+    mantissa = 0;
+    exponent++;
   }
-}
 
-export class Bits15 extends Bits {
-  constructor(options?: any) {
-    super({...options, size: 15} )
+  if (exponent > bias) {
+    return sign | (maxExponent << mantissaBits);
   }
+  return sign | ((exponent + bias) << mantissaBits) | mantissa;
 }
 
-export class Bits16 extends Bits {
-  constructor(options?: any) {
-    super({...options, size: 16} )
-  }
+function roundHalfToEven(value: number): number {
+  const floor = Math.floor(value);
+  const remainder = value - floor;
+  return (remainder > 0.5 || (remainder === 0.5 && Math.abs(floor % 2) === 1)) ? floor + 1 : floor;
 }
\ No newline at end of file